@@ -0,0 +1,56 @@
+import { childLogger } from '../src/lib/logger.ts';
+import { findGithubPullRequest, upsertGithubComment } from '../src/lib/github.ts';
+
+const logger = childLogger('cli');
+
+const PREVIEW_MARKER = '<!-- frontpage-preview -->';
+
+type PreviewDetails = {
+	project: string;
+	environment: string;
+	url: string;
+	commit: string | null;
+	built: string;
+	deploymentUrl: string | null;
+};
+
+function previewComment(details: PreviewDetails): string {
+	const { project, environment, url, commit, built, deploymentUrl } = details;
+	return [
+		`### Preview for \`${project}\``,
+		'',
+		'| | |',
+		'| --- | --- |',
+		`| **Environment** | \`${environment}\` |`,
+		`| **Preview URL** | ${url} |`,
+		`| **Commit** | ${commit ? `\`${commit.slice(0, 7)}\`` : '-'} |`,
+		`| **Built** | ${built} |`,
+		`| **Deployment** | ${deploymentUrl ? `[Cloudflare Pages](${deploymentUrl})` : '-'} |`
+	].join('\n');
+}
+
+function teardownComment(project: string, environment: string): string {
+	return [
+		`### Preview for \`${project}\``,
+		'',
+		`Preview environment \`${environment}\` was torn down at ${new Date().toISOString()}.`
+	].join('\n');
+}
+
+async function commentPullRequest(
+	githubToken: string,
+	repository: string,
+	branch: string,
+	body: string
+): Promise<void> {
+	const pull = await findGithubPullRequest(githubToken, repository, branch);
+	if (!pull) {
+		logger.info(`No pull request found for branch '${branch}', skipping preview comment`);
+		return;
+	}
+	await upsertGithubComment(githubToken, repository, pull.number, PREVIEW_MARKER, body);
+	logger.info(`Updated preview comment on pull request ${pull.html_url}`);
+}
+
+export type { PreviewDetails };
+export { PREVIEW_MARKER, previewComment, teardownComment, commentPullRequest };
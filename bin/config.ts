@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import * as toml from 'toml';
+import { z } from 'zod';
+
+import { childLogger } from '../src/lib/logger.ts';
+import { TRACKERS } from '../src/lib/tracker.ts';
+import { SELECTOR_PATTERN } from './verify.ts';
+import { DURATION_PATTERN } from './retention.ts';
+
+const logger = childLogger('cli');
+
+const CONFIG_FILE = 'frontpage.toml';
+const COMPATIBILITY_DATE = '2022-01-01';
+const COMPATIBILITY_FLAGS = ['url_standard'];
+
+const checkConfigSchema = z
+	.object({
+		path: z.string().startsWith('/').optional(),
+		status: z.number().int().min(100).max(599).optional(),
+		contains: z.array(z.string()).optional(),
+		selectors: z
+			.array(z.string().regex(SELECTOR_PATTERN, 'Expected a simple css selector'))
+			.optional(),
+		max_time: z.number().int().positive().optional()
+	})
+	.strict();
+
+const environmentConfigSchema = z
+	.object({
+		max_deployments: z.number().int().nonnegative().optional(),
+		keep_newer_than: z
+			.string()
+			.regex(DURATION_PATTERN, 'Expected a number followed by s, m, h, d or w')
+			.optional(),
+		keep_aliased: z.boolean().optional(),
+		keep_tagged: z.boolean().optional(),
+		compatibility_date: z
+			.string()
+			.regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected date in YYYY-MM-DD format')
+			.optional(),
+		compatibility_flags: z.array(z.string()).optional(),
+		variables: z.array(z.string()).optional(),
+		secrets: z.array(z.string()).optional(),
+		checks: z.array(checkConfigSchema).optional(),
+		verify_timeout: z.number().int().positive().optional()
+	})
+	.strict();
+
+const targetConfigSchema = z
+	.object({
+		name: z.string(),
+		build: z.string().optional(),
+		directory: z.string(),
+		variables: z.array(z.string()).optional(),
+		secrets: z.array(z.string()).optional()
+	})
+	.strict();
+
+const projectConfigSchema = environmentConfigSchema
+	.extend({
+		name: z.string().optional(),
+		head: z.string().optional(),
+		directory: z.string().optional(),
+		tracker: z.enum(TRACKERS).optional(),
+		comment: z.boolean().optional(),
+		environments: z.record(environmentConfigSchema).optional(),
+		targets: z
+			.array(targetConfigSchema)
+			.refine(
+				(x) => new Set(x.map((target) => target.name)).size == x.length,
+				'Expected unique target names'
+			)
+			.optional()
+	})
+	.strict();
+
+type EnvironmentConfig = z.infer<typeof environmentConfigSchema>;
+type TargetConfig = z.infer<typeof targetConfigSchema>;
+type ProjectConfig = z.infer<typeof projectConfigSchema>;
+
+function loadConfig(path: string = CONFIG_FILE): ProjectConfig {
+	if (!fs.existsSync(path)) {
+		logger.debug(`Configuration file '${path}' not found, using defaults`);
+		return {};
+	}
+	logger.debug(`Loading configuration file '${path}'`);
+	let data: unknown;
+	try {
+		data = toml.parse(fs.readFileSync(path).toString());
+	} catch (error) {
+		const { line, column, message } = error as { line?: number; column?: number; message: string };
+		const location = line != null ? ` at line ${line}, column ${column}` : '';
+		throw new Error(`Unable to parse configuration file '${path}'${location}: ${message}`);
+	}
+	const validation = projectConfigSchema.safeParse(data);
+	if (!validation.success) {
+		const issues = validation.error.issues.map((x) => `'${x.path.join('.')}' ${x.message}`);
+		throw new Error(`Invalid configuration file '${path}': ${issues.join(', ')}`);
+	}
+	return validation.data;
+}
+
+// top level settings, then production/preview section, then branch section; names accumulate
+function environmentConfig(
+	config: ProjectConfig,
+	environment: string,
+	head: string
+): EnvironmentConfig {
+	const environments = config.environments || {};
+	const projectType = environment == head ? 'production' : 'preview';
+	const layers: EnvironmentConfig[] = [
+		config,
+		environments[projectType] || {},
+		environments[environment] || {}
+	];
+	const merge = (key: 'variables' | 'secrets') => [...new Set(layers.flatMap((x) => x[key] || []))];
+	const pick = <K extends keyof EnvironmentConfig>(key: K) =>
+		layers.reduce<EnvironmentConfig[K]>((a, x) => (x[key] !== undefined ? x[key] : a), undefined);
+	return {
+		max_deployments: pick('max_deployments'),
+		keep_newer_than: pick('keep_newer_than'),
+		keep_aliased: pick('keep_aliased'),
+		keep_tagged: pick('keep_tagged'),
+		compatibility_date: pick('compatibility_date'),
+		compatibility_flags: pick('compatibility_flags'),
+		checks: pick('checks'),
+		verify_timeout: pick('verify_timeout'),
+		variables: merge('variables'),
+		secrets: merge('secrets')
+	};
+}
+
+export type { EnvironmentConfig, TargetConfig, ProjectConfig };
+export { CONFIG_FILE, COMPATIBILITY_DATE, COMPATIBILITY_FLAGS, loadConfig, environmentConfig };
@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as dotenv from 'dotenv';
+
+import { childLogger } from '../src/lib/logger.ts';
+import { cloudflareAPI } from '../src/lib/api.ts';
+import type { ApiOptions } from '../src/lib/api.ts';
+import { cloudflareResultSchema, pagesProjectSchema } from '../src/lib/models.ts';
+import type { PagesEnvVar } from '../src/lib/models.ts';
+
+const logger = childLogger('cli');
+
+const SECRET_TYPE = 'secret_text';
+const PLAIN_TYPE = 'plain_text';
+
+type EnvSection = 'production' | 'preview';
+
+type EnvVar = {
+	name: string;
+	value: string;
+	secret: boolean;
+};
+
+type EnvChange = {
+	name: string;
+	action: 'add' | 'change' | 'remove' | 'unchanged';
+	secret: boolean;
+};
+
+type EnvPatch = Record<string, { value: string; type: string } | null>;
+
+async function listEnvVars(
+	cloudflareToken: string,
+	cloudflareAccountId: string,
+	project: string,
+	section: EnvSection,
+	options: ApiOptions = {}
+): Promise<Record<string, PagesEnvVar> | null> {
+	logger.debug(`Listing ${section} variables for project '${project}'`);
+	const projectResult = await cloudflareAPI(
+		cloudflareToken,
+		`accounts/${cloudflareAccountId}/pages/projects/${project}`,
+		'GET',
+		null,
+		{ ...options, schema: cloudflareResultSchema(pagesProjectSchema) }
+	);
+	if (!projectResult) {
+		return null;
+	}
+	const envVars = projectResult.result.deployment_configs[section].env_vars || {};
+	return Object.fromEntries(
+		Object.entries(envVars).filter((x): x is [string, PagesEnvVar] => x[1] != null)
+	);
+}
+
+function diffEnvVars(
+	current: Record<string, PagesEnvVar>,
+	desired: EnvVar[],
+	removed: string[] = []
+): EnvChange[] {
+	const changes: EnvChange[] = desired.map(({ name, value, secret }) => {
+		const existing = current[name];
+		if (!existing) {
+			return { name, action: 'add', secret };
+		}
+		// secret values are write only, so they can never be compared
+		const isSecret = secret || existing.type == SECRET_TYPE;
+		const isUnchanged = !isSecret && existing.value == value;
+		return { name, action: isUnchanged ? 'unchanged' : 'change', secret };
+	});
+	const removals: EnvChange[] = removed
+		.filter((name) => name in current && !desired.some((x) => x.name == name))
+		.map((name) => ({ name, action: 'remove', secret: current[name].type == SECRET_TYPE }));
+	return [...changes, ...removals].sort((x, y) => x.name.localeCompare(y.name));
+}
+
+function envPatch(changes: EnvChange[], desired: EnvVar[]): EnvPatch {
+	const patch: EnvPatch = {};
+	for (const change of changes) {
+		const envVar = desired.find((x) => x.name == change.name);
+		if (change.action == 'remove') {
+			patch[change.name] = null;
+		} else if (change.action != 'unchanged' && envVar) {
+			patch[change.name] = { value: envVar.value, type: envVar.secret ? SECRET_TYPE : PLAIN_TYPE };
+		}
+	}
+	return patch;
+}
+
+async function applyEnvChanges(
+	cloudflareToken: string,
+	cloudflareAccountId: string,
+	project: string,
+	section: EnvSection,
+	changes: EnvChange[],
+	desired: EnvVar[],
+	options: ApiOptions = {}
+): Promise<void> {
+	const patch = envPatch(changes, desired);
+	if (Object.keys(patch).length == 0) {
+		logger.info(`No ${section} variable changes for project '${project}'`);
+		return;
+	}
+	await cloudflareAPI(
+		cloudflareToken,
+		`accounts/${cloudflareAccountId}/pages/projects/${project}`,
+		'PATCH',
+		{ deployment_configs: { [section]: { env_vars: patch } } },
+		options
+	);
+	logger.info(`Updated ${Object.keys(patch).length} ${section} variables for project '${project}'`);
+}
+
+function envChangeRows(changes: EnvChange[]): Record<string, string>[] {
+	return changes.map((x) => ({
+		name: x.name,
+		type: x.secret ? 'secret' : 'plain',
+		action: x.action
+	}));
+}
+
+function loadEnvFile(path: string): Record<string, string> {
+	if (!fs.existsSync(path)) {
+		throw new Error(`Environment file '${path}' not found`);
+	}
+	logger.debug(`Loading environment file '${path}'`);
+	return dotenv.parse(fs.readFileSync(path));
+}
+
+export type { EnvSection, EnvVar, EnvChange, EnvPatch };
+export { listEnvVars, diffEnvVars, envPatch, applyEnvChanges, envChangeRows, loadEnvFile };
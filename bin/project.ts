@@ -1,18 +1,77 @@
-import { Command } from 'commander';
-import { execSync } from 'child_process';
+import { Command, InvalidArgumentError, Option } from 'commander';
+import { exec as shell, execSync } from 'child_process';
+import { formatWithOptions, promisify } from 'util';
 
 import git from 'isomorphic-git';
 
 import * as fs from 'fs';
 import * as dotenv from 'dotenv';
 
-import { logger, LOG_LEVELS } from '../src/lib/logger.ts';
-import { createGithubDeployment, cleanGithubDeployments } from '../src/lib/github.ts';
-import { cloudflareAPI, githubAPI } from '../src/lib/api.ts';
+import {
+	LOG_FORMATS,
+	LOG_LEVELS,
+	childLogger,
+	configureLogger,
+	redact
+} from '../src/lib/logger.ts';
+import type { LogTransports } from '../src/lib/logger.ts';
+import {
+	CONFIG_FILE,
+	COMPATIBILITY_DATE,
+	COMPATIBILITY_FLAGS,
+	environmentConfig,
+	loadConfig
+} from './config.ts';
+import type { EnvironmentConfig, TargetConfig } from './config.ts';
+import { publishPages } from './upload.ts';
+import { DEFAULT_CHECKS, VERIFY_TIMEOUT, verifyDeployment } from './verify.ts';
+import type { SmokeCheck } from './verify.ts';
+import { DURATION_PATTERN, applyRetention } from './retention.ts';
+import {
+	applyEnvChanges,
+	diffEnvVars,
+	envChangeRows,
+	envPatch,
+	listEnvVars,
+	loadEnvFile
+} from './env.ts';
+import type { EnvSection, EnvVar } from './env.ts';
+import type { RetentionPolicy } from './retention.ts';
+import { commentPullRequest, previewComment, teardownComment } from './comment.ts';
+import {
+	TRACKERS,
+	detectTracker,
+	githubTracker,
+	gitlabTracker,
+	noopTracker,
+	parseRemote
+} from '../src/lib/tracker.ts';
+import type { DeploymentTracker, TrackerKind } from '../src/lib/tracker.ts';
+import {
+	apiSettings,
+	cloudflareAPI,
+	cloudflarePaginate,
+	collect,
+	dryRunPlan,
+	mapConcurrent,
+	planAction
+} from '../src/lib/api.ts';
+import {
+	cloudflareResultSchema,
+	pagesDeploymentSchema,
+	pagesProjectSchema
+} from '../src/lib/models.ts';
+import type { PagesDeployment, PagesProject } from '../src/lib/models.ts';
+
+const logger = childLogger('cli');
 
 const CLOUDFLARE_ACCOUNT_ID = process.env.CLOUDFLARE_ACCOUNT_ID || null;
 const CLOUDFLARE_API_TOKEN = process.env.CLOUDFLARE_API_TOKEN || null;
 const GITHUB_TOKEN = process.env.GITHUB_TOKEN || null;
+const GITLAB_TOKEN = process.env.GITLAB_TOKEN || null;
+const GITLAB_API_URL = process.env.GITLAB_API_URL || null;
+const GITHUB_API_URL = process.env.GITHUB_API_URL || null;
+const CLOUDFLARE_API_URL = process.env.CLOUDFLARE_API_URL || null;
 const GITHUB_REF = process.env.GITHUB_SHA || null;
 
 const cwd = process.cwd();
@@ -21,8 +80,44 @@ if (fs.existsSync(`${cwd}/.env`)) {
 	dotenv.config({ path: `${process.cwd()}/.env` });
 }
 
+// logs go to stderr so that json and table output on stdout can be piped
+const STDERR_TRANSPORTS: LogTransports = {
+	transportFormatted: (meta, args, errors, settings) => {
+		const trace = (errors.length > 0 && args.length > 0 ? '\n' : '') + errors.join('\n');
+		const inspectOptions = { ...settings.prettyInspectOptions, colors: settings.stylePrettyLogs };
+		console.error(meta + formatWithOptions(inspectOptions, ...args) + trace);
+	},
+	transportJSON: (json) => console.error(JSON.stringify(json))
+};
+
 const MAX_DEPLOYMENTS = 5;
 const SVELTE_BUILD_DIR = '.svelte-kit/cloudflare';
+const TARGET_CONCURRENCY = 4;
+
+type DeployTarget = {
+	name: string;
+	build: string | null;
+	directory: string;
+	secrets: string[];
+	variables: string[];
+};
+
+type Publication = {
+	deployment: PagesDeployment | null;
+	previous: string | null;
+	url: string;
+	commit: string | null;
+	failures: string[];
+};
+
+type TargetResult = {
+	target: string;
+	status: 'succeeded' | 'failed' | 'skipped';
+	publication: Publication | null;
+	error: string | null;
+};
+
+type PublishedTarget = TargetResult & { publication: Publication };
 
 function execute(command: string, mode: 'run' | 'exec' | 'cli' = 'exec'): string {
 	const npm = `npm ${mode} --`;
@@ -31,50 +126,373 @@ function execute(command: string, mode: 'run' | 'exec' | 'cli' = 'exec'): string
 		logger.debug(`Executing '${cmd}'`);
 		const output = execSync(cmd).toString();
 		return output;
-		// eslint-disable-next-line @typescript-eslint/no-explicit-any
-	} catch (error: any) {
-		const { status } = error;
+	} catch (error) {
+		const status = error instanceof Error && 'status' in error ? error.status : null;
 		logger.error(`Command execution failed with status ${status || 'interrupted'}`);
 		throw new Error(`Failed to execute '${cmd}'`);
 	}
 }
 
-const exec = (command: string): string => execute(command, 'exec');
 const run = (command: string): string => execute(command, 'run');
 
+async function executeAsync(command: string): Promise<string> {
+	try {
+		logger.debug(`Executing '${command}'`);
+		const { stdout } = await promisify(shell)(command);
+		return stdout;
+	} catch (error) {
+		const code = error instanceof Error && 'code' in error ? error.code : null;
+		logger.error(`Command execution failed with status ${code || 'interrupted'}`);
+		throw new Error(`Failed to execute '${command}'`);
+	}
+}
+
+function formatTable(rows: Record<string, string>[]): string {
+	if (rows.length == 0) return '';
+	const columns = Object.keys(rows[0]);
+	const widths = columns.map((c) => Math.max(c.length, ...rows.map((r) => `${r[c]}`.length)));
+	const line = (values: string[]) =>
+		values
+			.map((v, i) => v.padEnd(widths[i]))
+			.join('  ')
+			.trimEnd();
+	return [
+		line(columns.map((c) => c.toUpperCase())),
+		line(widths.map((w) => '-'.repeat(w))),
+		...rows.map((r) => line(columns.map((c) => `${r[c]}`)))
+	].join('\n');
+}
+
+function printPlan() {
+	if (!apiSettings.dryRun) return;
+	logger.info(`Dry run complete, ${dryRunPlan.length} changes planned`);
+	if (dryRunPlan.length > 0) {
+		console.log(formatTable(dryRunPlan));
+	}
+}
+
+function setOutput(name: string, value: string) {
+	const outputFile = process.env.GITHUB_OUTPUT;
+	if (!outputFile) return;
+	logger.debug(`Setting output '${name}' to '${value}'`);
+	fs.appendFileSync(outputFile, `${name}=${value}\n`);
+}
+
+async function previewCommentPullRequest(
+	tracker: DeploymentTracker,
+	environment: string,
+	body: string
+): Promise<void> {
+	if (tracker.kind != 'github') {
+		logger.warn(`Preview comments are not supported for tracker '${tracker.kind}'`);
+		return;
+	}
+	await commentPullRequest(`${GITHUB_TOKEN}`, tracker.repository, environment, body);
+}
+
+async function commitTags(): Promise<Map<string, string[]>> {
+	const tags = new Map<string, string[]>();
+	try {
+		for (const tag of await git.listTags({ fs, dir: cwd })) {
+			const oid = await git.resolveRef({ fs, dir: cwd, ref: `refs/tags/${tag}` });
+			const { type } = await git.readObject({ fs, dir: cwd, oid });
+			const commit = type == 'tag' ? (await git.readTag({ fs, dir: cwd, oid })).tag.object : oid;
+			tags.set(commit, [...(tags.get(commit) || []), tag]);
+		}
+	} catch (error) {
+		logger.debug(`Unable to read repository tags: ${error}`);
+	}
+	logger.debug(`Found ${tags.size} tagged commits`);
+	return tags;
+}
+
+async function headCommit(): Promise<{ hash: string | null; message: string | null }> {
+	try {
+		const oid = await git.resolveRef({ fs, dir: cwd, ref: 'HEAD' });
+		const { commit } = await git.readCommit({ fs, dir: cwd, oid });
+		return { hash: oid, message: commit.message.split('\n')[0] };
+	} catch (error) {
+		logger.debug(`Unable to read head commit: ${error}`);
+		return { hash: GITHUB_REF, message: null };
+	}
+}
+
+function createTracker(kind: TrackerKind, repository: string, host: string): DeploymentTracker {
+	if (kind == 'github') {
+		return githubTracker(`${GITHUB_TOKEN}`, repository);
+	} else if (kind == 'gitlab') {
+		const url = GITLAB_API_URL || `https://${host}/api/v4`;
+		return gitlabTracker(`${GITLAB_TOKEN}`, repository, { url });
+	}
+	return noopTracker(repository);
+}
+
+async function getPagesProject(name: string): Promise<PagesProject | null> {
+	const projectResult = await cloudflareAPI(
+		`${CLOUDFLARE_API_TOKEN}`,
+		`accounts/${CLOUDFLARE_ACCOUNT_ID}/pages/projects/${name}`,
+		'GET',
+		null,
+		{ schema: cloudflareResultSchema(pagesProjectSchema) }
+	);
+	return projectResult?.result || null;
+}
+
+async function ensurePagesProject(name: string, head: string): Promise<PagesProject | null> {
+	const project = await getPagesProject(name);
+	if (project) return project;
+	logger.info(`Creating Pages project '${name}' with production branch '${head}'`);
+	await cloudflareAPI(
+		`${CLOUDFLARE_API_TOKEN}`,
+		`accounts/${CLOUDFLARE_ACCOUNT_ID}/pages/projects`,
+		'POST',
+		{ name, production_branch: head },
+		{ schema: cloudflareResultSchema(pagesProjectSchema) }
+	);
+	return null;
+}
+
+async function publish(
+	name: string,
+	environment: string,
+	head: string,
+	buildDir: string,
+	secrets: string[],
+	variables: string[],
+	compatibilityDate: string,
+	compatibilityFlags: string[],
+	smokeChecks: SmokeCheck[],
+	verifyTimeout: number
+): Promise<Publication> {
+	const project = await ensurePagesProject(name, head);
+	// a failed production deployment restores whatever was live before it was published
+	const previous = project?.canonical_deployment?.id || null;
+	const commit = await headCommit();
+	let deployment: PagesDeployment | null = null;
+	if (!project && apiSettings.dryRun) {
+		// a project whose creation is only planned has no upload token to request
+		const path = `accounts/${CLOUDFLARE_ACCOUNT_ID}/pages/projects/${name}/deployments`;
+		planAction('POST', `${apiSettings.cloudflareUrl}/${path}`);
+	} else {
+		deployment = await publishPages(
+			`${CLOUDFLARE_API_TOKEN}`,
+			`${CLOUDFLARE_ACCOUNT_ID}`,
+			name,
+			buildDir,
+			{
+				branch: environment,
+				commitHash: commit.hash,
+				commitMessage: commit.message,
+				commitDirty: true
+			}
+		);
+	}
+	const url = deployment?.url || '<pending>';
+	const envMap = (vars: string[]) =>
+		vars.map((varName) => ({ name: varName, value: `${process.env[varName]}` }));
+	await addPageVariables(
+		name,
+		environment,
+		head,
+		envMap(variables),
+		envMap(secrets),
+		compatibilityDate,
+		compatibilityFlags
+	);
+	if (smokeChecks.length > 0 && !deployment) {
+		logger.info('Skipping deployment checks, deployment url is not known');
+	}
+	const failures =
+		smokeChecks.length > 0 && deployment
+			? await verifyDeployment(url, smokeChecks, verifyTimeout)
+			: [];
+	return { deployment, previous, url, commit: commit.hash, failures };
+}
+
+function deploymentComment(name: string, environment: string, publication: Publication): string {
+	const { deployment, url, commit } = publication;
+	const deploymentUrl = deployment
+		? `https://dash.cloudflare.com/${CLOUDFLARE_ACCOUNT_ID}/pages/view/${name}/${deployment.id}`
+		: null;
+	return previewComment({
+		project: name,
+		environment,
+		url,
+		commit,
+		built: deployment?.created_on || new Date().toISOString(),
+		deploymentUrl
+	});
+}
+
 async function deploy(
-	repository: string,
+	tracker: DeploymentTracker,
 	name: string,
 	environment: string,
 	head: string,
-	maxDeployments: number,
+	retention: RetentionPolicy,
 	buildDir: string = SVELTE_BUILD_DIR,
 	secrets: string[] = [],
-	variables: string[] = []
+	variables: string[] = [],
+	compatibilityDate: string = COMPATIBILITY_DATE,
+	compatibilityFlags: string[] = COMPATIBILITY_FLAGS,
+	comment = false,
+	smokeChecks: SmokeCheck[] = DEFAULT_CHECKS,
+	verifyTimeout: number = VERIFY_TIMEOUT
 ): Promise<void> {
-	logger.debug(`Deploying project ${name}, environment ${environment} from ${repository}`);
-	const projectResults = await cloudflareAPI(
-		`${CLOUDFLARE_API_TOKEN}`,
-		`accounts/${CLOUDFLARE_ACCOUNT_ID}/pages/projects`
+	logger.debug(`Deploying project ${name}, environment ${environment} from ${tracker.repository}`);
+	const publication = await publish(
+		name,
+		environment,
+		head,
+		buildDir,
+		secrets,
+		variables,
+		compatibilityDate,
+		compatibilityFlags,
+		smokeChecks,
+		verifyTimeout
 	);
-	const allProjects = projectResults || { result: [] };
-	// eslint-disable-next-line @typescript-eslint/no-explicit-any
-	const projectsMatch = allProjects.result.filter((x: any) => x.name === name);
-	if (projectsMatch === null) {
-		exec(`wrangler pages project create ${name} --production-branch ${head}`);
-	}
-	const publishCommand = `wrangler pages publish ${buildDir}`;
-	const publishArguments = `--project-name ${name} --branch ${environment} --commit-dirty true`;
-	const publishOutput = exec(`${publishCommand} ${publishArguments}`);
-	const publishUrl = `${publishOutput.split(' ').at(-1)}`.trim();
-	const envMap = (vars: string[]) =>
-		vars.map((varName) => ({ name: varName, value: `${process.env[varName]}` }));
-	await addPageVariables(name, environment, head, envMap(variables), envMap(secrets));
-	await createGithubDeployment(`${GITHUB_TOKEN}`, repository, environment, publishUrl);
-	await cleanGithubDeployments(`${GITHUB_TOKEN}`, repository, environment, maxDeployments);
-	await cleanPagesDeployments(name, environment, maxDeployments);
+	const { deployment, previous, url, commit, failures } = publication;
+	setOutput('projectUrl', url);
+	if (failures.length > 0) {
+		const description = `${failures.length} deployment checks failed`;
+		await tracker.createDeployment(environment, url, commit, description, 'failure');
+		if (environment == head) {
+			logger.error(`Rolling back failed production deployment '${deployment?.id}'`);
+			await rollbackFailed(tracker, name, head, previous);
+		}
+		throw new Error(`Deployment checks failed for url ${url}`);
+	}
+	await tracker.createDeployment(environment, url, commit);
+	await retainDeployments(tracker, name, environment, retention);
+	if (comment && environment != head) {
+		const body = deploymentComment(name, environment, publication);
+		await previewCommentPullRequest(tracker, environment, body);
+	}
 	const projectType = environment == head ? 'Production' : 'Preview';
-	logger.debug(`${projectType} deployment published at url ${publishUrl}`);
+	logger.debug(`${projectType} deployment published at url ${url}`);
+}
+
+async function runTargets(
+	targets: DeployTarget[],
+	action: string,
+	fn: (target: DeployTarget) => Promise<Publication | null>,
+	failFast = false,
+	concurrency: number = TARGET_CONCURRENCY
+): Promise<TargetResult[]> {
+	let failed = false;
+	const results = await mapConcurrent(
+		targets,
+		concurrency,
+		async (target): Promise<TargetResult> => {
+			const result = { target: target.name, publication: null, error: null };
+			if (failFast && failed) {
+				logger.info(`Skipping ${action} of target '${target.name}' after an earlier failure`);
+				return { ...result, status: 'skipped' };
+			}
+			try {
+				return { ...result, status: 'succeeded', publication: await fn(target) };
+			} catch (error) {
+				failed = true;
+				const message = `${error instanceof Error ? error.message : error}`;
+				logger.error(`Failed ${action} of target '${target.name}': ${message}`);
+				return { ...result, status: 'failed', error: message };
+			}
+		}
+	);
+	const rows = results.map((x) => ({
+		target: x.target,
+		status: x.status,
+		url: x.publication?.url || '-',
+		error: x.error || '-'
+	}));
+	logger.info(`Summary of ${action} for ${targets.length} targets:\n${formatTable(rows)}`);
+	return results;
+}
+
+async function deployTargets(
+	tracker: DeploymentTracker,
+	targets: DeployTarget[],
+	environment: string,
+	head: string,
+	retention: RetentionPolicy,
+	compatibilityDate: string = COMPATIBILITY_DATE,
+	compatibilityFlags: string[] = COMPATIBILITY_FLAGS,
+	comment = false,
+	smokeChecks: SmokeCheck[] = DEFAULT_CHECKS,
+	verifyTimeout: number = VERIFY_TIMEOUT,
+	failFast = false,
+	concurrency: number = TARGET_CONCURRENCY
+): Promise<TargetResult[]> {
+	const names = targets.map((x) => x.name).join(', ');
+	logger.debug(`Deploying targets ${names}, environment ${environment} from ${tracker.repository}`);
+	// targets share the tracker environment, so it is only updated once for all of them
+	const untracked = noopTracker(tracker.repository);
+	const tags = retention.keepTagged ? await commitTags() : new Map<string, string[]>();
+	const retained: { aliases: Map<string, string[]>; rows: RetentionRow[] }[] = [];
+	const results = await runTargets(
+		targets,
+		'deployment',
+		async (target) => {
+			if (target.build) {
+				logger.info(`Building target '${target.name}'`);
+				await executeAsync(target.build);
+			}
+			const publication = await publish(
+				target.name,
+				environment,
+				head,
+				target.directory,
+				target.secrets,
+				target.variables,
+				compatibilityDate,
+				compatibilityFlags,
+				smokeChecks,
+				verifyTimeout
+			);
+			if (publication.failures.length > 0) {
+				if (environment == head) {
+					logger.error(`Rolling back failed production deployment for target '${target.name}'`);
+					await rollbackFailed(untracked, target.name, head, publication.previous);
+				}
+				throw new Error(`Deployment checks failed for url ${publication.url}`);
+			}
+			retained.push(await retainPagesDeployments(target.name, environment, retention, tags));
+			return publication;
+		},
+		failFast,
+		concurrency
+	);
+	const published = results.filter((x): x is PublishedTarget => x.publication != null);
+	const urls = Object.fromEntries(published.map((x) => [x.target, x.publication.url]));
+	setOutput('projectUrls', JSON.stringify(urls));
+	const url = published[0]?.publication.url || '<pending>';
+	const { hash } = await headCommit();
+	const failed = results.filter((x) => x.status != 'succeeded');
+	const pagesRows = retained.flatMap((x) => x.rows);
+	if (failed.length > 0) {
+		const description = `${failed.length} of ${results.length} targets failed to deploy`;
+		await tracker.createDeployment(environment, url, hash, description, 'failure');
+		retentionReport(environment, pagesRows);
+		return results;
+	}
+	await tracker.createDeployment(environment, url, hash);
+	const aliases = new Map(retained.flatMap((x) => [...x.aliases]));
+	const trackedRows = await retainTrackedDeployments(
+		tracker,
+		environment,
+		retention,
+		tags,
+		aliases
+	);
+	retentionReport(environment, [...pagesRows, ...trackedRows]);
+	if (comment && environment != head) {
+		const body = published
+			.map((x) => deploymentComment(x.target, environment, x.publication))
+			.join('\n\n');
+		await previewCommentPullRequest(tracker, environment, body);
+	}
+	return results;
 }
 
 async function listPagesDeployments(
@@ -82,29 +500,26 @@ async function listPagesDeployments(
 	cloudflareAccountId: string,
 	page: string,
 	environment: string | null = null
-) {
+): Promise<PagesDeployment[]> {
 	logger.debug(
 		`Listing Cloudflare page deployments for project '${page}', environment ${environment}`
 	);
-	const deploymentResults = await cloudflareAPI(
-		cloudflareToken,
-		`accounts/${cloudflareAccountId}/pages/projects/${page}/deployments`
+	const allDeployments = await collect(
+		cloudflarePaginate(
+			cloudflareToken,
+			`accounts/${cloudflareAccountId}/pages/projects/${page}/deployments`,
+			{ schema: pagesDeploymentSchema }
+		)
 	);
-	const rawDeployments = deploymentResults || { result: [] };
-	// eslint-disable-next-line @typescript-eslint/no-explicit-any
-	const environmentDeployments = rawDeployments.result.filter((x: any) => {
-		const isTrigger = 'deployment_trigger' in x;
-		const isMetadata = 'metadata' in x['deployment_trigger'];
-		const isBranch = 'branch' in x['deployment_trigger']['metadata'];
-		const branch =
-			isTrigger && isMetadata && isBranch ? x['deployment_trigger']['metadata']['branch'] : null;
+	const environmentDeployments = allDeployments.filter((x) => {
+		const branch = x.deployment_trigger.metadata?.branch || null;
 		return branch === environment;
 	});
-	const deployments = environment != null ? environmentDeployments : rawDeployments;
-	const sortedDeployments = deployments.sort((x: any, y: any) => {
+	const deployments = environment != null ? environmentDeployments : allDeployments;
+	const sortedDeployments = deployments.sort((x, y) => {
 		const xDate = new Date(x.created_on);
 		const yDate = new Date(y.created_on);
-		xDate <= yDate;
+		return xDate.getTime() - yDate.getTime();
 	});
 	logger.debug(
 		`Found ${sortedDeployments.length} Cloudflare page deployments for project '${page}'`
@@ -112,38 +527,112 @@ async function listPagesDeployments(
 	return sortedDeployments;
 }
 
-async function cleanPagesDeployments(
+async function deletePagesDeployment(page: string, deployment: PagesDeployment) {
+	logger.debug(`Removing deployment '${deployment.id}/${deployment.created_on}'`);
+	try {
+		await cloudflareAPI(
+			`${CLOUDFLARE_API_TOKEN}`,
+			`accounts/${CLOUDFLARE_ACCOUNT_ID}/pages/projects/${page}/deployments/${deployment.id}`,
+			'DELETE'
+		);
+		logger.debug(`Deployment '${deployment.id}' removed`);
+	} catch (error) {
+		logger.debug(`Unable to remove deployment '${deployment.id}'`);
+	}
+}
+
+type RetentionRow = Record<string, string>;
+
+function retentionRows<T extends { id: string; commit: string | null; created: string }>(
+	source: string,
+	decisions: { item: T; keep: boolean; reasons: string[] }[]
+): RetentionRow[] {
+	return decisions.map(({ item, keep, reasons }) => ({
+		source,
+		deployment: item.id.slice(0, 8),
+		commit: item.commit?.slice(0, 7) || '-',
+		age: formatAge(item.created),
+		action: keep ? 'keep' : 'remove',
+		reason: keep ? reasons.join('; ') : 'no retention rule matched'
+	}));
+}
+
+function retentionReport(environment: string, rows: RetentionRow[]) {
+	if (rows.length > 0) {
+		logger.info(`Retention report for environment '${environment}':\n${formatTable(rows)}`);
+	}
+}
+
+// returns the aliases of the listed deployments so that tracked deployments can be matched to them
+async function retainPagesDeployments(
 	page: string,
-	environment: string | null = null,
-	maxDeployments: number
-) {
-	logger.debug('Clean Pages deployments');
-	// eslint-disable-next-line @typescript-eslint/no-explicit-any
-	const deployments = await listPagesDeployments(
+	environment: string,
+	policy: RetentionPolicy,
+	tags: Map<string, string[]>
+): Promise<{ aliases: Map<string, string[]>; rows: RetentionRow[] }> {
+	const pagesDeployments = await listPagesDeployments(
 		`${CLOUDFLARE_API_TOKEN}`,
 		`${CLOUDFLARE_ACCOUNT_ID}`,
 		page,
 		environment
 	);
-	logger.debug(`Found ${deployments.length} deployments for environment '${environment}'`);
-	if (deployments.length > 0) {
-		// eslint-disable-next-line @typescript-eslint/no-explicit-any
-		const extraDeployments = deployments.slice(0, deployments.length - maxDeployments);
-		logger.debug(`Removing ${extraDeployments.length} deployments`);
-		// eslint-disable-next-line @typescript-eslint/no-explicit-any
-		for (const deployment of extraDeployments) {
-			logger.debug(`Removing deployment '${deployment.id}/${deployment.created_on}'`);
-			try {
-				await cloudflareAPI(
-					`accounts/${CLOUDFLARE_ACCOUNT_ID}/pages/projects/${page}/deployments/${deployment.id}`,
-					'DELETE'
-				);
-				logger.debug(`Deployment '${deployment.id}' removed`);
-			} catch (error) {
-				logger.debug(`Unable to remove deployment '${deployment.id}'`);
-			}
-		}
+	const decisions = applyRetention(
+		pagesDeployments.map((deployment) => ({
+			id: deployment.id,
+			created: deployment.created_on,
+			commit: deployment.deployment_trigger.metadata?.commit_hash || null,
+			aliases: deployment.aliases || [],
+			deployment
+		})),
+		policy,
+		tags
+	);
+	for (const { item } of decisions.filter((x) => !x.keep)) {
+		await deletePagesDeployment(page, item.deployment);
 	}
+	return {
+		aliases: new Map(pagesDeployments.map((x) => [x.url, x.aliases || []])),
+		rows: retentionRows('pages', decisions)
+	};
+}
+
+async function retainTrackedDeployments(
+	tracker: DeploymentTracker,
+	environment: string,
+	policy: RetentionPolicy,
+	tags: Map<string, string[]>,
+	aliases: Map<string, string[]>
+): Promise<RetentionRow[]> {
+	const trackedDeployments = await tracker.listDeployments(environment);
+	const decisions = applyRetention(
+		trackedDeployments.map((deployment) => ({
+			...deployment,
+			created: deployment.updated,
+			aliases: (deployment.url && aliases.get(deployment.url)) || []
+		})),
+		policy,
+		tags
+	);
+	for (const { item } of decisions.filter((x) => !x.keep)) {
+		logger.debug(`Removing ${tracker.kind} deployment '${item.id}'`);
+		await tracker.deleteDeployment(item.id);
+	}
+	return retentionRows(tracker.kind, decisions);
+}
+
+async function retainDeployments(
+	tracker: DeploymentTracker,
+	page: string,
+	environment: string,
+	policy: RetentionPolicy
+) {
+	logger.debug(
+		`Applying retention policy ${JSON.stringify(policy)} to environment '${environment}'`
+	);
+	const tags = policy.keepTagged ? await commitTags() : new Map<string, string[]>();
+	const { aliases, rows } = await retainPagesDeployments(page, environment, policy, tags);
+	const trackedRows = await retainTrackedDeployments(tracker, environment, policy, tags, aliases);
+	retentionReport(environment, [...rows, ...trackedRows]);
 }
 
 async function addPageVariables(
@@ -151,72 +640,461 @@ async function addPageVariables(
 	environment: string,
 	head: string,
 	variables: { name: string; value: string }[],
-	secrets: { name: string; value: string }[]
+	secrets: { name: string; value: string }[],
+	compatibilityDate: string = COMPATIBILITY_DATE,
+	compatibilityFlags: string[] = COMPATIBILITY_FLAGS
 ) {
-	logger.debug(`Adding variables '${Object.keys(variables)}' to project '${page}'`);
-	logger.debug(`Adding secrets '${Object.keys(secrets)}' to project '${page}'`);
-	const varMap = (vars: { name: string; value: string }[]) => {
-		return vars
-			.map((variable) => ({ [variable.name]: { value: variable.value } }))
-			.reduce((a, x) => ({ ...a, ...x }), {});
-	};
-	const secretMap = (vars: { name: string; value: string }[]) => {
-		return vars
-			.map((variable) => ({ [variable.name]: { value: variable.value, type: 'secret_text' } }))
-			.reduce((a, x) => ({ ...a, ...x }), {});
-	};
-	const configSection = (environment == head && 'production') || 'preview';
-	const pageData = await cloudflareAPI(
+	logger.debug(`Adding variables '${variables.map((x) => x.name)}' to project '${page}'`);
+	logger.debug(`Adding secrets '${secrets.map((x) => x.name)}' to project '${page}'`);
+	const configSection = envSection(environment, head);
+	const current = await listEnvVars(
 		`${CLOUDFLARE_API_TOKEN}`,
-		`accounts/${CLOUDFLARE_ACCOUNT_ID}/pages/projects/${page}`
+		`${CLOUDFLARE_ACCOUNT_ID}`,
+		page,
+		configSection
 	);
-	const baseData = { deployment_configs: pageData.deployment_configs };
-	const patchData = {
-		deployment_configs: {
-			[configSection]: {
-				compatibility_date: '2022-01-01',
-				compatibility_flags: ['url_standard'],
-				env_vars: { ...varMap(variables), ...secretMap(secrets) }
-			}
-		}
-	};
+	if (!current && !apiSettings.dryRun) {
+		logger.fatal(`Pages project '${page}' not found`);
+		throw new Error(`Pages project '${page}' not found`);
+	}
+	const desired = [
+		...variables.map((x) => ({ ...x, secret: false })),
+		...secrets.map((x) => ({ ...x, secret: true }))
+	];
+	const changes = diffEnvVars(current || {}, desired);
+	logger.debug(`Variable changes for project '${page}':\n${formatTable(envChangeRows(changes))}`);
 	await cloudflareAPI(
 		`${CLOUDFLARE_API_TOKEN}`,
 		`accounts/${CLOUDFLARE_ACCOUNT_ID}/pages/projects/${page}`,
 		'PATCH',
 		{
-			...baseData,
-			...patchData
+			deployment_configs: {
+				[configSection]: {
+					compatibility_date: compatibilityDate,
+					compatibility_flags: compatibilityFlags,
+					env_vars: envPatch(changes, desired)
+				}
+			}
 		}
 	);
 }
 
+const envSection = (environment: string, head: string): EnvSection =>
+	environment == head ? 'production' : 'preview';
+
+async function currentEnvVars(name: string, section: EnvSection) {
+	const current = await listEnvVars(
+		`${CLOUDFLARE_API_TOKEN}`,
+		`${CLOUDFLARE_ACCOUNT_ID}`,
+		name,
+		section
+	);
+	if (!current) {
+		logger.fatal(`Pages project '${name}' not found`);
+		process.exit(1);
+	}
+	return current;
+}
+
+function envValue(name: string, file: Record<string, string>): string {
+	const value = file[name] ?? process.env[name];
+	if (value === undefined) {
+		logger.fatal(`Value for variable '${name}' not found in environment file or environment`);
+		process.exit(1);
+	}
+	return value;
+}
+
+async function envList(name: string, environment: string, head: string, json: boolean) {
+	const section = envSection(environment, head);
+	const current = await currentEnvVars(name, section);
+	const variables = Object.entries(current)
+		.sort(([x], [y]) => x.localeCompare(y))
+		.map(([variable, x]) => {
+			const secret = x.type == 'secret_text';
+			return { name: variable, secret, value: secret ? null : x.value || '' };
+		});
+	if (json) {
+		console.log(JSON.stringify({ environment: section, variables }, null, 2));
+	} else if (variables.length == 0) {
+		logger.info(`No ${section} variables found for project ${name}`);
+	} else {
+		const rows = variables.map((x) => ({
+			name: x.name,
+			type: x.secret ? 'secret' : 'plain',
+			value: x.value ?? '[secret]'
+		}));
+		console.log(formatTable(rows));
+	}
+}
+
+async function envUpdate(
+	name: string,
+	environment: string,
+	head: string,
+	desired: EnvVar[],
+	removed: string[] = [],
+	prune = false
+) {
+	const section = envSection(environment, head);
+	const current = await currentEnvVars(name, section);
+	const changes = diffEnvVars(current, desired, prune ? Object.keys(current) : removed);
+	const pending = changes.filter((x) => x.action != 'unchanged');
+	if (pending.length > 0) {
+		console.log(formatTable(envChangeRows(changes)));
+	}
+	await applyEnvChanges(
+		`${CLOUDFLARE_API_TOKEN}`,
+		`${CLOUDFLARE_ACCOUNT_ID}`,
+		name,
+		section,
+		changes,
+		desired
+	);
+}
+
+async function cleanTrackedEnvironment(
+	tracker: DeploymentTracker,
+	environment: string,
+	head: string,
+	policy: RetentionPolicy,
+	tags: Map<string, string[]>,
+	aliases: Map<string, string[]>
+): Promise<RetentionRow[]> {
+	const rows = await retainTrackedDeployments(tracker, environment, policy, tags, aliases);
+	if (environment != head) {
+		await tracker.destroyEnvironment(environment);
+	}
+	return rows;
+}
+
 async function clean(
-	repository: string,
+	tracker: DeploymentTracker,
 	name: string,
 	environment: string,
 	head: string,
-	maxDeployments: number
+	retention: RetentionPolicy,
+	comment = false
 ): Promise<void> {
 	const projectType = environment == head ? 'production' : 'preview';
 	logger.debug(`Cleaning up ${projectType} environment ${environment} for project ${name}`);
-	await cleanGithubDeployments(`${GITHUB_TOKEN}`, repository, environment, maxDeployments);
-	await cleanPagesDeployments(name, environment, maxDeployments);
-	if (environment != head) {
-		logger.debug(`Destroying ${projectType} environment ${environment} for project ${name}`);
-		await cleanGithubDeployments(`${GITHUB_TOKEN}`, repository, environment, 0);
-		await cleanPagesDeployments(name, environment, 0);
-		await githubAPI(`repos/${repository}/environments/${environment}`, 'DELETE');
-		logger.debug(`Destroyed ${projectType} environment ${environment} for project ${name}`);
+	// preview environments are destroyed, production deployments are only pruned
+	const policy = environment != head ? {} : retention;
+	const tags = policy.keepTagged ? await commitTags() : new Map<string, string[]>();
+	const { aliases, rows } = await retainPagesDeployments(name, environment, policy, tags);
+	const trackedRows = await cleanTrackedEnvironment(
+		tracker,
+		environment,
+		head,
+		policy,
+		tags,
+		aliases
+	);
+	retentionReport(environment, [...rows, ...trackedRows]);
+	if (comment && environment != head) {
+		await previewCommentPullRequest(tracker, environment, teardownComment(name, environment));
 	}
 	logger.debug(`Cleaned up ${projectType} environment ${environment} for project ${name}`);
 }
 
-async function checkEnvironment() {
-	if (!GITHUB_TOKEN) {
+async function cleanTargets(
+	tracker: DeploymentTracker,
+	targets: DeployTarget[],
+	environment: string,
+	head: string,
+	retention: RetentionPolicy,
+	comment = false,
+	failFast = false,
+	concurrency: number = TARGET_CONCURRENCY
+): Promise<TargetResult[]> {
+	const policy = environment != head ? {} : retention;
+	const tags = policy.keepTagged ? await commitTags() : new Map<string, string[]>();
+	const retained: { aliases: Map<string, string[]>; rows: RetentionRow[] }[] = [];
+	const results = await runTargets(
+		targets,
+		'cleanup',
+		async (target) => {
+			retained.push(await retainPagesDeployments(target.name, environment, policy, tags));
+			return null;
+		},
+		failFast,
+		concurrency
+	);
+	const pagesRows = retained.flatMap((x) => x.rows);
+	// keep the tracker environment around so that failed targets can be cleaned up again
+	if (results.some((x) => x.status != 'succeeded')) {
+		retentionReport(environment, pagesRows);
+		return results;
+	}
+	const aliases = new Map(retained.flatMap((x) => [...x.aliases]));
+	const trackedRows = await cleanTrackedEnvironment(
+		tracker,
+		environment,
+		head,
+		policy,
+		tags,
+		aliases
+	);
+	retentionReport(environment, [...pagesRows, ...trackedRows]);
+	if (comment && environment != head) {
+		const body = targets.map((x) => teardownComment(x.name, environment)).join('\n\n');
+		await previewCommentPullRequest(tracker, environment, body);
+	}
+	return results;
+}
+
+async function rollback(
+	tracker: DeploymentTracker,
+	name: string,
+	head: string,
+	target: string | null = null
+): Promise<void> {
+	logger.debug(`Rolling back production deployment for project ${name}`);
+	const project = await getPagesProject(name);
+	const deployments = await listPagesDeployments(
+		`${CLOUDFLARE_API_TOKEN}`,
+		`${CLOUDFLARE_ACCOUNT_ID}`,
+		name,
+		head
+	);
+	// after a rollback the newest deployment is no longer the one serving traffic
+	const canonical = project?.canonical_deployment?.id;
+	const current = deployments.find((x) => x.id == canonical) || deployments.at(-1);
+	if (!current) {
+		throw new Error(`No production deployments found for project '${name}'`);
+	}
+	const isSuccess = (x: PagesDeployment) => (x.latest_stage?.status || 'success') == 'success';
+	const isMatch = (deployment: PagesDeployment) => {
+		const commit = deployment.deployment_trigger.metadata?.commit_hash || '';
+		return target != null && (deployment.id.startsWith(target) || commit.startsWith(target));
+	};
+	const deployment =
+		target != null
+			? deployments.filter((x) => x.id != current.id && isSuccess(x) && isMatch(x)).at(-1)
+			: deployments.slice(0, deployments.indexOf(current)).filter(isSuccess).at(-1);
+	if (!deployment) {
+		const reason = target != null ? `matching '${target}'` : 'older than the current one';
+		throw new Error(`No successful production deployment ${reason} found for project '${name}'`);
+	}
+	const commit = deployment.deployment_trigger.metadata?.commit_hash || null;
+	logger.info(`Rolling back project '${name}' from ${current.id} to ${deployment.id}`);
+	await cloudflareAPI(
+		`${CLOUDFLARE_API_TOKEN}`,
+		`accounts/${CLOUDFLARE_ACCOUNT_ID}/pages/projects/${name}/deployments/${deployment.id}/rollback`,
+		'POST',
+		null,
+		{ schema: cloudflareResultSchema(pagesDeploymentSchema) }
+	);
+	await tracker.createDeployment(
+		head,
+		deployment.url,
+		commit,
+		`Rolled back to ${commit?.slice(0, 7) || deployment.id}`
+	);
+	logger.info(`Production deployment for project '${name}' rolled back to ${deployment.url}`);
+}
+
+// the check failure is what callers report, a failed rollback must not replace it
+async function rollbackFailed(
+	tracker: DeploymentTracker,
+	name: string,
+	head: string,
+	previous: string | null
+) {
+	if (previous == null) {
+		logger.error(
+			`Unable to roll back project '${name}': no earlier production deployment was live`
+		);
+		return;
+	}
+	try {
+		await rollback(tracker, name, head, previous);
+	} catch (error) {
+		logger.error(
+			`Unable to roll back project '${name}': ${error instanceof Error ? error.message : error}`
+		);
+	}
+}
+
+function formatAge(date: string): string {
+	const seconds = Math.max(0, Math.floor((Date.now() - new Date(date).getTime()) / 1000));
+	if (seconds < 60) return `${seconds}s`;
+	if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+	if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+	return `${Math.floor(seconds / 86400)}d`;
+}
+
+async function status(
+	tracker: DeploymentTracker,
+	name: string,
+	environment: string,
+	json: boolean
+): Promise<void> {
+	logger.debug(`Retrieving status for project ${name}, environment ${environment}`);
+	const trackedDeployments = await tracker.listDeployments(environment);
+	const pagesDeployments = await listPagesDeployments(
+		`${CLOUDFLARE_API_TOKEN}`,
+		`${CLOUDFLARE_ACCOUNT_ID}`,
+		name,
+		environment
+	);
+	const deployments = pagesDeployments.reverse().map((pagesDeployment) => {
+		const commit = pagesDeployment.deployment_trigger.metadata?.commit_hash || null;
+		const tracked = trackedDeployments.find(
+			(x) => (commit != null && x.commit == commit) || x.url == pagesDeployment.url
+		);
+		return {
+			id: pagesDeployment.id,
+			url: pagesDeployment.url,
+			commit,
+			created: pagesDeployment.created_on,
+			state: pagesDeployment.latest_stage?.status || null,
+			tracker: tracked ? { id: tracked.id, state: tracked.state } : null
+		};
+	});
+	if (json) {
+		console.log(JSON.stringify({ environment, deployments }, null, 2));
+	} else if (deployments.length == 0) {
+		logger.info(`No deployments found for project ${name}, environment ${environment}`);
+	} else {
+		const rows = deployments.map((x) => ({
+			deployment: x.id.slice(0, 8),
+			commit: x.commit?.slice(0, 7) || '-',
+			url: x.url,
+			age: formatAge(x.created),
+			state: x.state || '-',
+			[tracker.kind]: x.tracker?.state || '-'
+		}));
+		console.log(formatTable(rows));
+	}
+}
+
+async function list(
+	tracker: DeploymentTracker,
+	name: string,
+	head: string,
+	json: boolean
+): Promise<void> {
+	logger.debug(`Listing environments for project ${name}`);
+	const trackedEnvironments = await tracker.listEnvironments();
+	const pagesDeployments = await listPagesDeployments(
+		`${CLOUDFLARE_API_TOKEN}`,
+		`${CLOUDFLARE_ACCOUNT_ID}`,
+		name
+	);
+	const branches = pagesDeployments.map((x) => x.deployment_trigger.metadata?.branch || null);
+	const names = [...new Set([...trackedEnvironments, ...branches])];
+	const environments = names
+		.filter((x): x is string => x != null)
+		.sort()
+		.map((environment) => {
+			const deployments = pagesDeployments.filter(
+				(x) => x.deployment_trigger.metadata?.branch == environment
+			);
+			const latest = deployments.at(-1) || null;
+			return {
+				name: environment,
+				type: environment == head ? 'production' : 'preview',
+				tracked: trackedEnvironments.includes(environment),
+				deployments: deployments.length,
+				url: latest?.url || null,
+				updated: latest?.created_on || null
+			};
+		});
+	if (json) {
+		console.log(JSON.stringify({ environments }, null, 2));
+	} else if (environments.length == 0) {
+		logger.info(`No environments found for project ${name}`);
+	} else {
+		const rows = environments.map((x) => ({
+			environment: x.name,
+			type: x.type,
+			[tracker.kind]: x.tracked ? 'yes' : 'no',
+			deployments: `${x.deployments}`,
+			url: x.url || '-',
+			age: x.updated ? formatAge(x.updated) : '-'
+		}));
+		console.log(formatTable(rows));
+	}
+}
+
+function hostname(url: string): string | null {
+	try {
+		return new URL(url).hostname;
+	} catch (error) {
+		return null;
+	}
+}
+
+async function gc(
+	tracker: DeploymentTracker,
+	name: string,
+	head: string,
+	exclude: string[] = []
+): Promise<void> {
+	logger.debug(`Collecting orphaned environments for project ${name}`);
+	if (tracker.kind == 'none') {
+		logger.fatal(`Garbage collection is not supported for tracker '${tracker.kind}'`);
+		process.exit(1);
+	}
+	const branches = await tracker.listBranches();
+	if (branches.length == 0) {
+		logger.fatal(`No branches found for repository '${tracker.repository}'`);
+		process.exit(1);
+	}
+	const reviewBranches = await tracker.listReviewBranches();
+	const liveBranches = new Set([head, ...exclude, ...branches, ...reviewBranches]);
+	const trackedEnvironments = await tracker.listEnvironments();
+	const pagesDeployments = await listPagesDeployments(
+		`${CLOUDFLARE_API_TOKEN}`,
+		`${CLOUDFLARE_ACCOUNT_ID}`,
+		name
+	);
+	const pagesBranches = pagesDeployments.map((x) => x.deployment_trigger.metadata?.branch || null);
+	const project = await getPagesProject(name);
+	const subdomain = project?.subdomain || null;
+	const pagesUrls = new Set(pagesDeployments.map((x) => x.url));
+	const isPagesUrl = (url: string | null) => {
+		if (url == null) return false;
+		const host = hostname(url);
+		return (
+			pagesUrls.has(url) ||
+			(subdomain != null && host != null && (host == subdomain || host.endsWith(`.${subdomain}`)))
+		);
+	};
+	// environments not deployed by this tool, like github-pages, are never collected
+	const trackedOrphans: string[] = [];
+	for (const environment of trackedEnvironments.filter((x) => !liveBranches.has(x))) {
+		const deployments = await tracker.listDeployments(environment);
+		if (deployments.some((x) => isPagesUrl(x.url))) {
+			trackedOrphans.push(environment);
+		} else {
+			logger.debug(`Skipping environment '${environment}' without deployments of ${name}`);
+		}
+	}
+	const orphans = [...new Set([...trackedOrphans, ...pagesBranches])]
+		.filter((x): x is string => x != null && !liveBranches.has(x))
+		.sort();
+	if (orphans.length == 0) {
+		logger.info(`No orphaned environments found for project ${name}`);
+		return;
+	}
+	logger.info(`Found ${orphans.length} orphaned environments: ${orphans.join(', ')}`);
+	for (const environment of orphans) {
+		await clean(tracker, name, environment, head, {});
+	}
+	logger.info(`Destroyed ${orphans.length} orphaned environments for project ${name}`);
+}
+
+async function checkEnvironment(trackerKind: TrackerKind) {
+	if (trackerKind == 'github' && !GITHUB_TOKEN) {
 		logger.fatal('GITHUB_TOKEN environment variable is not set');
 		process.exit(1);
 	}
+	if (trackerKind == 'gitlab' && !GITLAB_TOKEN) {
+		logger.fatal('GITLAB_TOKEN environment variable is not set');
+		process.exit(1);
+	}
 	if (!CLOUDFLARE_API_TOKEN) {
 		logger.fatal('CLOUDFLARE_API_TOKEN environment variable is not set');
 		process.exit(1);
@@ -228,29 +1106,23 @@ async function checkEnvironment() {
 }
 
 async function checkRepository(
-	repository: string,
+	tracker: DeploymentTracker,
 	environment: string,
 	head: string,
 	operation: string
 ) {
 	logger.debug('Validating source repository settings');
-	const repo = await githubAPI(`${GITHUB_TOKEN}`, `repos/${repository}`, 'GET');
-	if (!repo) {
+	const { repository } = tracker;
+	if (!(await tracker.findRepository())) {
 		logger.fatal(`Repository '${repository}' not found`);
 		process.exit(1);
 	}
-	const master = await githubAPI(`${GITHUB_TOKEN}`, `repos/${repository}/branches/${head}`, 'GET');
-	if (!master) {
+	if (!(await tracker.findBranch(head))) {
 		logger.fatal(`Master branch '${head}' for repository '${repository}' not found`);
 		process.exit(1);
 	}
 	if (operation == 'deploy') {
-		const branch = await githubAPI(
-			`${GITHUB_TOKEN}`,
-			`repos/${repository}/branches/${environment}`,
-			'GET'
-		);
-		if (!branch) {
+		if (!(await tracker.findBranch(environment))) {
 			logger.fatal(`Deploy branch '${environment}' for repository '${repository}' not found`);
 			process.exit(1);
 		}
@@ -261,6 +1133,7 @@ async function checkRepository(
 async function checkSecrets(secrets: string[]) {
 	logger.debug('Checking secret variables');
 	secrets.forEach((s) => {
+		redact(process.env[s]);
 		if (!process.env[s]) {
 			logger.fatal(`Environment variable '${s}' is not set`);
 			process.exit(1);
@@ -283,18 +1156,71 @@ async function checkEnvVars(vars: string[]) {
 async function main() {
 	const branch = await git.currentBranch({ fs, dir: cwd });
 	const origin = await git.getConfig({ fs, dir: cwd, path: 'remote.origin.url' });
-	const repo = origin
-		.replace('git@', '')
-		.replace('https://', '')
-		.replace('.git', '')
-		.replace(':', '/')
-		.split('/')
-		.slice(-2)
-		.join('/');
+	const { host, repository: repo } = parseRemote(origin);
 	const project = repo.split('/').at(-1);
 	const program = new Command();
 	const checks: Promise<void>[] = [];
+	let environmentSettings: EnvironmentConfig = {};
+	let configTargets: TargetConfig[] = [];
 	const collect = (value: string, previous: string[]) => previous.concat([value]);
+	const abort = (error: unknown) => {
+		logger.fatal(`${error instanceof Error ? error.message : error}`);
+		process.exit(1);
+	};
+	const finish = (results: TargetResult[]) => {
+		printPlan();
+		const failed = results.filter((x) => x.status == 'failed');
+		if (failed.length > 0) {
+			abort(`${failed.length} of ${results.length} targets failed`);
+		}
+	};
+	// configured targets replace the single project named on the command line
+	const selectTargets = (options: Record<string, string[]>): DeployTarget[] | null => {
+		const selected = options.target;
+		if (configTargets.length == 0) {
+			if (selected.length > 0) {
+				abort(`No targets configured in '${program.opts()['config']}'`);
+			}
+			return null;
+		}
+		const unknown = selected.filter((x) => !configTargets.some((target) => target.name == x));
+		if (unknown.length > 0) {
+			abort(`Unknown targets '${unknown.join(', ')}'`);
+		}
+		return configTargets
+			.filter((x) => selected.length == 0 || selected.includes(x.name))
+			.map((x) => ({
+				name: x.name,
+				build: x.build || null,
+				directory: x.directory,
+				secrets: [...new Set([...(options.secret || []), ...(x.secrets || [])])],
+				variables: [...new Set([...(options.variable || []), ...(x.variables || [])])]
+			}));
+	};
+	const duration = (value: string) => {
+		if (!DURATION_PATTERN.test(value)) {
+			throw new InvalidArgumentError('Expected a number followed by s, m, h, d or w.');
+		}
+		return value;
+	};
+	const integer = (value: string) => {
+		if (!/^\d+$/.test(value)) {
+			throw new InvalidArgumentError('Expected a non-negative integer.');
+		}
+		return value;
+	};
+	const count = (value: string) => {
+		if (!/^[1-9]\d*$/.test(value)) {
+			throw new InvalidArgumentError('Expected a positive integer.');
+		}
+		return value;
+	};
+	const retentionPolicy = (options: Record<string, string | boolean>): RetentionPolicy => ({
+		keepLast: Number(options.maxDeployments),
+		keepNewerThan: options.keepNewerThan ? `${options.keepNewerThan}` : undefined,
+		keepAliased: options.keepAliased == true,
+		keepTagged: options.keepTagged == true
+	});
 
 	program
 		.version('0.0.1', '--version', 'output the current version')
@@ -303,60 +1229,347 @@ async function main() {
 		.option('-v, --verbose', 'verbose output', false)
 		.option('-q, --quiet', 'quiet output (overrides verbose)', false)
 		.option('-k, --insecure', 'disable ssl verification', false)
-		.option('-r, --repository [repository]', 'github repository in <owner>/<repo> format', repo)
+		.addOption(
+			new Option('--log-format <format>', 'log output format')
+				.choices(LOG_FORMATS)
+				.default('pretty')
+		)
+		.option('-r, --repository [repository]', 'repository in <owner>/<repo> format', repo)
 		.option('-e, --environment <environment>', 'environment', `${branch}`)
 		.option('-h, --head [branch]', 'head branch', 'master')
-		.hook('preAction', (program, _) => {
+		.option('--retries <retries>', 'api request retries', integer, `${apiSettings.retries}`)
+		.option(
+			'--timeout <timeout>',
+			'api request timeout in seconds',
+			count,
+			`${apiSettings.timeout / 1000}`
+		)
+		.option('--dry-run', 'log planned changes instead of applying them', false)
+		.option('-c, --config <file>', 'project configuration file', CONFIG_FILE)
+		.addOption(
+			new Option('--tracker <tracker>', 'deployment tracking backend')
+				.choices(TRACKERS)
+				.default(detectTracker(host))
+		)
+		.hook('preAction', (program, command) => {
 			const isVerbose = program.opts()['verbose'];
 			const isQuiet = program.opts()['quiet'];
 			const isInsecure = program.opts()['insecure'];
-			if (isVerbose) logger.settings.minLevel = LOG_LEVELS.debug;
-			if (isQuiet) logger.settings.minLevel = LOG_LEVELS.fatal;
+			if (isVerbose) configureLogger({ minLevel: LOG_LEVELS.debug });
+			if (isQuiet) configureLogger({ minLevel: LOG_LEVELS.fatal });
+			configureLogger({ format: program.opts()['logFormat'], transports: STDERR_TRANSPORTS });
+			[CLOUDFLARE_API_TOKEN, GITHUB_TOKEN, GITLAB_TOKEN].forEach(redact);
 			if (isInsecure) process.env.NODE_TLS_REJECT_UNAUTHORIZED = '0';
-			const { repository, environment, head } = program.opts();
+			apiSettings.retries = Number(program.opts()['retries']);
+			apiSettings.timeout = Number(program.opts()['timeout']) * 1000;
+			apiSettings.dryRun = program.opts()['dryRun'];
+			if (GITHUB_API_URL) apiSettings.githubUrl = GITHUB_API_URL;
+			if (CLOUDFLARE_API_URL) apiSettings.cloudflareUrl = CLOUDFLARE_API_URL;
+			try {
+				const config = loadConfig(program.opts()['config']);
+				const fromConfig = (target: Command, key: string, value: unknown) => {
+					if (value !== undefined && target.getOptionValueSource(key) == 'default') {
+						target.setOptionValueWithSource(key, value, 'config');
+					}
+				};
+				fromConfig(program, 'head', config.head);
+				fromConfig(program, 'tracker', config.tracker);
+				configTargets = config.targets || [];
+				const { environment, head } = program.opts();
+				const settings = environmentConfig(config, environment, head);
+				environmentSettings = settings;
+				fromConfig(command, 'name', config.name);
+				fromConfig(command, 'directory', config.directory);
+				fromConfig(command, 'maxDeployments', settings.max_deployments);
+				fromConfig(command, 'keepNewerThan', settings.keep_newer_than);
+				fromConfig(command, 'keepAliased', settings.keep_aliased);
+				fromConfig(command, 'keepTagged', settings.keep_tagged);
+				fromConfig(command, 'compatibilityDate', settings.compatibility_date);
+				fromConfig(command, 'compatibilityFlag', settings.compatibility_flags);
+				fromConfig(command, 'comment', config.comment);
+				fromConfig(command, 'verifyTimeout', settings.verify_timeout);
+				for (const key of ['secret', 'variable'] as const) {
+					const values = key == 'secret' ? settings.secrets : settings.variables;
+					// env set has a boolean --secret flag, only list options take configured names
+					const value = command.getOptionValue(key);
+					if (Array.isArray(value)) {
+						command.setOptionValue(key, [...new Set([...(values || []), ...value])]);
+					}
+				}
+			} catch (error) {
+				abort(error);
+			}
 			logger.info(`Validating deployment parameters`);
-			checks.push(checkEnvironment());
+			checks.push(checkEnvironment(program.opts()['tracker']));
 		});
 
 	program
 		.command('deploy')
 		.option('-n, --name [name]', 'project page name', project)
 		.option('-m, --max-deployments [deployments]', 'max deployments', `${MAX_DEPLOYMENTS}`)
+		.option('--keep-newer-than <duration>', 'keep deployments newer than duration', duration)
+		.option('--keep-aliased', 'keep deployments with aliases', false)
+		.option('--keep-tagged', 'keep deployments of tagged commits', false)
 		.option('-d, --directory [directory]', 'build directory', `${SVELTE_BUILD_DIR}`)
 		.option('-s, --secret <secret>', 'page environment secret', collect, [])
 		.option('-v, --variable <env>', 'page environment variable', collect, [])
+		.option('--compatibility-date <date>', 'page compatibility date', COMPATIBILITY_DATE)
+		.option('--compatibility-flag <flag>', 'page compatibility flag', collect, [])
+		.option('--comment', 'upsert a preview comment on the pull request for the branch', false)
+		.option('--skip-checks', 'skip post-deploy checks', false)
+		.option('--verify-timeout <seconds>', 'post-deploy reachability timeout', `${VERIFY_TIMEOUT}`)
+		.option('-t, --target <target>', 'configured target to deploy (default all)', collect, [])
+		.option('--fail-fast', 'skip remaining targets after the first failure', false)
+		.option(
+			'--concurrency <count>',
+			'targets to deploy concurrently',
+			count,
+			`${TARGET_CONCURRENCY}`
+		)
 		.action((options, _) => {
 			const { repository, environment, head } = program.opts();
-			checks.push(checkRepository(repository, environment, head, 'deploy'));
-			checks.push(checkSecrets(options.secret));
-			checks.push(checkEnvVars(options.variable));
-			Promise.all(checks).then(() => {
-				logger.info(`Creating deployment for repository '${repo}', environment '${environment}'`);
-				run('build');
-				deploy(
-					repository,
-					options.name,
-					environment,
-					head,
-					Number(options.maxDeployments),
-					options.directory,
-					options.secret,
-					options.variable
-				);
-			});
+			const tracker = createTracker(program.opts()['tracker'], repository, host);
+			const targets = selectTargets(options);
+			checks.push(checkRepository(tracker, environment, head, 'deploy'));
+			checks.push(checkSecrets(targets ? targets.flatMap((x) => x.secrets) : options.secret));
+			checks.push(checkEnvVars(targets ? targets.flatMap((x) => x.variables) : options.variable));
+			Promise.all(checks)
+				.then(() => {
+					logger.info(`Creating deployment for repository '${repo}', environment '${environment}'`);
+					const compatibilityFlags =
+						options.compatibilityFlag.length > 0 ? options.compatibilityFlag : COMPATIBILITY_FLAGS;
+					const smokeChecks = options.skipChecks
+						? []
+						: environmentSettings.checks || DEFAULT_CHECKS;
+					if (targets) {
+						deployTargets(
+							tracker,
+							targets,
+							environment,
+							head,
+							retentionPolicy(options),
+							options.compatibilityDate,
+							compatibilityFlags,
+							options.comment,
+							smokeChecks,
+							Number(options.verifyTimeout),
+							options.failFast,
+							Number(options.concurrency)
+						).then(finish, abort);
+						return;
+					}
+					run('build');
+					deploy(
+						tracker,
+						options.name,
+						environment,
+						head,
+						retentionPolicy(options),
+						options.directory,
+						options.secret,
+						options.variable,
+						options.compatibilityDate,
+						compatibilityFlags,
+						options.comment,
+						smokeChecks,
+						Number(options.verifyTimeout)
+					).then(printPlan, abort);
+				})
+				.catch(abort);
 		});
 
 	program
 		.command('clean')
 		.option('-n, --name [name]', 'project page name', project)
 		.option('-m, --max-deployments [deployments]', 'max deployments', `${MAX_DEPLOYMENTS}`)
+		.option('--keep-newer-than <duration>', 'keep deployments newer than duration', duration)
+		.option('--keep-aliased', 'keep deployments with aliases', false)
+		.option('--keep-tagged', 'keep deployments of tagged commits', false)
+		.option('--comment', 'mark the pull request preview comment as torn down', false)
+		.option('-t, --target <target>', 'configured target to clean (default all)', collect, [])
+		.option('--fail-fast', 'skip remaining targets after the first failure', false)
+		.option(
+			'--concurrency <count>',
+			'targets to clean concurrently',
+			count,
+			`${TARGET_CONCURRENCY}`
+		)
 		.action((options, _) => {
 			const { repository, environment, head } = program.opts();
-			checks.push(checkRepository(repository, environment, head, 'clean'));
-			Promise.all(checks).then(() => {
-				logger.info(`Cleaning deployments for repository '${repo}'`);
-				clean(repository, options.name, environment, head, Number(options.maxDeployments));
-			});
+			const tracker = createTracker(program.opts()['tracker'], repository, host);
+			const targets = selectTargets(options);
+			checks.push(checkRepository(tracker, environment, head, 'clean'));
+			Promise.all(checks)
+				.then(() => {
+					logger.info(`Cleaning deployments for repository '${repo}'`);
+					if (targets) {
+						cleanTargets(
+							tracker,
+							targets,
+							environment,
+							head,
+							retentionPolicy(options),
+							options.comment,
+							options.failFast,
+							Number(options.concurrency)
+						).then(finish, abort);
+						return;
+					}
+					clean(
+						tracker,
+						options.name,
+						environment,
+						head,
+						retentionPolicy(options),
+						options.comment
+					).then(printPlan, abort);
+				})
+				.catch(abort);
+		});
+
+	program
+		.command('rollback')
+		.option('-n, --name [name]', 'project page name', project)
+		.option('-t, --to <target>', 'deployment id or commit to roll back to')
+		.action((options, _) => {
+			const { repository, environment, head } = program.opts();
+			const tracker = createTracker(program.opts()['tracker'], repository, host);
+			checks.push(checkRepository(tracker, environment, head, 'rollback'));
+			Promise.all(checks)
+				.then(() => {
+					rollback(tracker, options.name, head, options.to || null).then(printPlan, abort);
+				})
+				.catch(abort);
+		});
+
+	program
+		.command('status')
+		.option('-n, --name [name]', 'project page name', project)
+		.option('--json', 'output status as json', false)
+		.action((options, _) => {
+			const { repository, environment, head } = program.opts();
+			const tracker = createTracker(program.opts()['tracker'], repository, host);
+			checks.push(checkRepository(tracker, environment, head, 'status'));
+			Promise.all(checks)
+				.then(() => {
+					status(tracker, options.name, environment, options.json).catch(abort);
+				})
+				.catch(abort);
+		});
+
+	program
+		.command('list')
+		.option('-n, --name [name]', 'project page name', project)
+		.option('--json', 'output environments as json', false)
+		.action((options, _) => {
+			const { repository, environment, head } = program.opts();
+			const tracker = createTracker(program.opts()['tracker'], repository, host);
+			checks.push(checkRepository(tracker, environment, head, 'list'));
+			Promise.all(checks)
+				.then(() => {
+					list(tracker, options.name, head, options.json).catch(abort);
+				})
+				.catch(abort);
+		});
+
+	program
+		.command('gc')
+		.option('-n, --name [name]', 'project page name', project)
+		.option('-x, --exclude <environment>', 'environment to keep', collect, [])
+		.action((options, _) => {
+			const { repository, environment, head } = program.opts();
+			const tracker = createTracker(program.opts()['tracker'], repository, host);
+			checks.push(checkRepository(tracker, environment, head, 'gc'));
+			Promise.all(checks)
+				.then(() => {
+					logger.info(`Collecting orphaned environments for repository '${repo}'`);
+					gc(tracker, options.name, head, options.exclude).then(printPlan, abort);
+				})
+				.catch(abort);
+		});
+
+	const envCommand = program.command('env').description('manage page environment variables');
+
+	envCommand
+		.command('list')
+		.option('-n, --name [name]', 'project page name', project)
+		.option('--json', 'output variables as json', false)
+		.action((options, _) => {
+			const { environment, head } = program.opts();
+			Promise.all(checks)
+				.then(() => {
+					envList(options.name, environment, head, options.json).catch(abort);
+				})
+				.catch(abort);
+		});
+
+	envCommand
+		.command('set')
+		.argument('<variables...>', 'variables in NAME or NAME=VALUE format')
+		.option('-n, --name [name]', 'project page name', project)
+		.option('--secret', 'store variables as secrets', false)
+		.option('--env-file <file>', 'read variable values from dotenv file')
+		.action((variables: string[], options, _) => {
+			const { environment, head } = program.opts();
+			Promise.all(checks)
+				.then(() => {
+					const file = options.envFile ? loadEnvFile(options.envFile) : {};
+					const desired = variables.map((variable) => {
+						const [variableName, ...value] = variable.split('=');
+						return {
+							name: variableName,
+							value: value.length > 0 ? value.join('=') : envValue(variableName, file),
+							secret: options.secret
+						};
+					});
+					desired.filter((x) => x.secret).forEach((x) => redact(x.value));
+					envUpdate(options.name, environment, head, desired).then(printPlan, abort);
+				})
+				.catch(abort);
+		});
+
+	envCommand
+		.command('unset')
+		.argument('<variables...>', 'variable names')
+		.option('-n, --name [name]', 'project page name', project)
+		.action((variables: string[], options, _) => {
+			const { environment, head } = program.opts();
+			Promise.all(checks)
+				.then(() => {
+					envUpdate(options.name, environment, head, [], variables).then(printPlan, abort);
+				})
+				.catch(abort);
+		});
+
+	envCommand
+		.command('sync')
+		.option('-n, --name [name]', 'project page name', project)
+		.option('-s, --secret <secret>', 'page environment secret', collect, [])
+		.option('--variable <env>', 'page environment variable', collect, [])
+		.option('--env-file <file>', 'read variable values from dotenv file')
+		.option('--prune', 'remove variables that are not declared', false)
+		.action((options, _) => {
+			const { environment, head } = program.opts();
+			Promise.all(checks)
+				.then(() => {
+					const file = options.envFile ? loadEnvFile(options.envFile) : {};
+					const declared = options.variable.length + options.secret.length > 0;
+					const variables: string[] = declared ? options.variable : Object.keys(file);
+					const desired = [
+						...variables.map((x) => ({ name: x, value: envValue(x, file), secret: false })),
+						...options.secret.map((x: string) => ({
+							name: x,
+							value: envValue(x, file),
+							secret: true
+						}))
+					];
+					desired.filter((x) => x.secret).forEach((x) => redact(x.value));
+					envUpdate(options.name, environment, head, desired, [], options.prune).then(
+						printPlan,
+						abort
+					);
+				})
+				.catch(abort);
 		});
 	program.parse(process.argv);
 }
@@ -0,0 +1,69 @@
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+const DURATION_PATTERN = /^(\d+)([smhdw])$/;
+
+type RetentionPolicy = {
+	keepLast?: number;
+	keepNewerThan?: string;
+	keepAliased?: boolean;
+	keepTagged?: boolean;
+};
+
+type RetentionCandidate = {
+	id: string;
+	created: string;
+	commit: string | null;
+	aliases: string[];
+};
+
+type RetentionDecision<T extends RetentionCandidate> = {
+	item: T;
+	keep: boolean;
+	reasons: string[];
+};
+
+function parseDuration(duration: string): number {
+	const match = duration.match(DURATION_PATTERN);
+	if (!match) {
+		throw new Error(
+			`Invalid duration '${duration}', expected a number followed by s, m, h, d or w`
+		);
+	}
+	return Number(match[1]) * DURATION_UNITS[match[2]] * 1000;
+}
+
+function sortCandidates<T extends RetentionCandidate>(items: T[]): T[] {
+	return [...items].sort((x, y) => {
+		const age = new Date(y.created).getTime() - new Date(x.created).getTime();
+		return age != 0 ? age : x.id.localeCompare(y.id);
+	});
+}
+
+function applyRetention<T extends RetentionCandidate>(
+	items: T[],
+	policy: RetentionPolicy,
+	tags: Map<string, string[]> = new Map(),
+	now: number = Date.now()
+): RetentionDecision<T>[] {
+	const { keepLast = 0, keepNewerThan, keepAliased = false, keepTagged = false } = policy;
+	const cutoff = keepNewerThan ? now - parseDuration(keepNewerThan) : null;
+	return sortCandidates(items).map((item, index) => {
+		const reasons: string[] = [];
+		if (index < keepLast) {
+			reasons.push(`last ${keepLast}`);
+		}
+		if (cutoff != null && new Date(item.created).getTime() > cutoff) {
+			reasons.push(`newer than ${keepNewerThan}`);
+		}
+		if (keepAliased && item.aliases.length > 0) {
+			reasons.push(`aliased ${item.aliases.join(', ')}`);
+		}
+		const itemTags = (item.commit && tags.get(item.commit)) || [];
+		if (keepTagged && itemTags.length > 0) {
+			reasons.push(`tagged ${itemTags.join(', ')}`);
+		}
+		return { item, keep: reasons.length > 0, reasons };
+	});
+}
+
+export type { RetentionPolicy, RetentionCandidate, RetentionDecision };
+export { DURATION_PATTERN, parseDuration, applyRetention };
@@ -0,0 +1,201 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import blake3 from 'blake3-wasm';
+import { z } from 'zod';
+
+import { childLogger } from '../src/lib/logger.ts';
+import { cloudflareAPI } from '../src/lib/api.ts';
+import type { ApiOptions } from '../src/lib/api.ts';
+import {
+	cloudflareResultSchema,
+	pagesDeploymentSchema,
+	pagesUploadTokenSchema
+} from '../src/lib/models.ts';
+import type { PagesDeployment } from '../src/lib/models.ts';
+
+const logger = childLogger('cli');
+
+const MAX_ASSET_SIZE = 25 * 1024 * 1024;
+const MAX_ASSET_COUNT = 20000;
+const MAX_BUCKET_SIZE = 40 * 1024 * 1024;
+const MAX_BUCKET_FILE_COUNT = 2000;
+const IGNORED_FILES = ['_worker.js', '_redirects', '_headers', '_routes.json', 'functions'];
+const IGNORED_NAMES = ['.DS_Store', 'node_modules', '.git'];
+const SPECIAL_FILES = ['_worker.js', '_redirects', '_headers', '_routes.json'];
+const CONTENT_TYPES: Record<string, string> = {
+	'.html': 'text/html',
+	'.css': 'text/css',
+	'.js': 'application/javascript',
+	'.mjs': 'application/javascript',
+	'.json': 'application/json',
+	'.map': 'application/json',
+	'.webmanifest': 'application/manifest+json',
+	'.txt': 'text/plain',
+	'.xml': 'application/xml',
+	'.svg': 'image/svg+xml',
+	'.png': 'image/png',
+	'.jpg': 'image/jpeg',
+	'.jpeg': 'image/jpeg',
+	'.gif': 'image/gif',
+	'.webp': 'image/webp',
+	'.avif': 'image/avif',
+	'.ico': 'image/x-icon',
+	'.woff': 'font/woff',
+	'.woff2': 'font/woff2',
+	'.ttf': 'font/ttf',
+	'.otf': 'font/otf',
+	'.pdf': 'application/pdf',
+	'.wasm': 'application/wasm'
+};
+
+type PagesAsset = {
+	name: string;
+	path: string;
+	contentType: string;
+	size: number;
+	hash: string;
+};
+
+type PagesCommit = {
+	branch: string;
+	commitHash?: string | null;
+	commitMessage?: string | null;
+	commitDirty?: boolean;
+};
+
+function hashAsset(filePath: string): string {
+	const contents = fs.readFileSync(filePath).toString('base64');
+	const extension = path.extname(filePath).substring(1);
+	return blake3
+		.hash(contents + extension)
+		.toString('hex')
+		.slice(0, 32);
+}
+
+function listAssets(directory: string, root: string = directory): PagesAsset[] {
+	return fs.readdirSync(directory).flatMap((file) => {
+		const filePath = path.join(directory, file);
+		const name = path.relative(root, filePath).split(path.sep).join('/');
+		const stat = fs.lstatSync(filePath);
+		if (IGNORED_FILES.includes(name) || IGNORED_NAMES.includes(file) || stat.isSymbolicLink()) {
+			return [];
+		} else if (stat.isDirectory()) {
+			return listAssets(filePath, root);
+		} else if (stat.size > MAX_ASSET_SIZE) {
+			throw new Error(`Asset '${name}' exceeds the maximum size of ${MAX_ASSET_SIZE} bytes`);
+		}
+		const contentType = CONTENT_TYPES[path.extname(file).toLowerCase()];
+		return [
+			{
+				name,
+				path: filePath,
+				contentType: contentType || 'application/octet-stream',
+				size: stat.size,
+				hash: hashAsset(filePath)
+			}
+		];
+	});
+}
+
+function bucketAssets(assets: PagesAsset[]): PagesAsset[][] {
+	const buckets: { assets: PagesAsset[]; size: number }[] = [];
+	for (const asset of [...assets].sort((x, y) => y.size - x.size)) {
+		const bucket = buckets.find(
+			(x) => x.size + asset.size <= MAX_BUCKET_SIZE && x.assets.length < MAX_BUCKET_FILE_COUNT
+		);
+		if (bucket) {
+			bucket.assets.push(asset);
+			bucket.size += asset.size;
+		} else {
+			buckets.push({ assets: [asset], size: asset.size });
+		}
+	}
+	return buckets.map((x) => x.assets);
+}
+
+async function uploadAssets(
+	cloudflareToken: string,
+	cloudflareAccountId: string,
+	project: string,
+	assets: PagesAsset[],
+	options: ApiOptions = {}
+): Promise<void> {
+	const tokenResult = await cloudflareAPI(
+		cloudflareToken,
+		`accounts/${cloudflareAccountId}/pages/projects/${project}/upload-token`,
+		'GET',
+		null,
+		{ ...options, schema: cloudflareResultSchema(pagesUploadTokenSchema) }
+	);
+	if (!tokenResult) {
+		throw new Error(`Unable to retrieve upload token for project '${project}'`);
+	}
+	const { jwt } = tokenResult.result;
+	const hashes = [...new Set(assets.map((x) => x.hash))];
+	const missingResult = await cloudflareAPI(
+		jwt,
+		'pages/assets/check-missing',
+		'POST',
+		{ hashes },
+		{ ...options, schema: cloudflareResultSchema(z.array(z.string())) }
+	);
+	const missingHashes = missingResult?.result || hashes;
+	const missingAssets = assets.filter((x) => missingHashes.includes(x.hash));
+	logger.debug(`Uploading ${missingAssets.length} of ${assets.length} assets`);
+	for (const bucket of bucketAssets(missingAssets)) {
+		const payload = bucket.map((asset) => ({
+			key: asset.hash,
+			value: fs.readFileSync(asset.path).toString('base64'),
+			metadata: { contentType: asset.contentType },
+			base64: true
+		}));
+		await cloudflareAPI(jwt, 'pages/assets/upload', 'POST', payload, options);
+		logger.debug(`Uploaded ${bucket.length} assets`);
+	}
+	await cloudflareAPI(jwt, 'pages/assets/upsert-hashes', 'POST', { hashes }, options);
+}
+
+async function publishPages(
+	cloudflareToken: string,
+	cloudflareAccountId: string,
+	project: string,
+	directory: string,
+	commit: PagesCommit,
+	options: ApiOptions = {}
+): Promise<PagesDeployment | null> {
+	logger.debug(`Publishing directory '${directory}' to project '${project}'`);
+	const assets = listAssets(path.resolve(directory));
+	if (assets.length > MAX_ASSET_COUNT) {
+		throw new Error(`Directory '${directory}' exceeds the maximum of ${MAX_ASSET_COUNT} assets`);
+	}
+	await uploadAssets(cloudflareToken, cloudflareAccountId, project, assets, options);
+	const manifest = Object.fromEntries(assets.map((x) => [`/${x.name}`, x.hash]));
+	const form = new FormData();
+	form.append('manifest', JSON.stringify(manifest));
+	form.append('branch', commit.branch);
+	if (commit.commitHash) form.append('commit_hash', commit.commitHash);
+	if (commit.commitMessage) form.append('commit_message', commit.commitMessage);
+	if (commit.commitDirty !== undefined) form.append('commit_dirty', `${commit.commitDirty}`);
+	for (const file of SPECIAL_FILES) {
+		const filePath = path.join(directory, file);
+		if (fs.existsSync(filePath)) {
+			logger.debug(`Uploading '${file}'`);
+			form.append(file, new Blob([fs.readFileSync(filePath)]), file);
+		}
+	}
+	const deploymentResult = await cloudflareAPI(
+		cloudflareToken,
+		`accounts/${cloudflareAccountId}/pages/projects/${project}/deployments`,
+		'POST',
+		form,
+		{ ...options, schema: cloudflareResultSchema(pagesDeploymentSchema) }
+	);
+	const deployment = deploymentResult?.result || null;
+	if (deployment) {
+		logger.debug(`Created deployment '${deployment.id}' at url ${deployment.url}`);
+	}
+	return deployment;
+}
+
+export type { PagesAsset, PagesCommit };
+export { hashAsset, listAssets, publishPages };
@@ -0,0 +1,124 @@
+import { childLogger } from '../src/lib/logger.ts';
+
+const logger = childLogger('cli');
+
+const VERIFY_TIMEOUT = 120;
+const VERIFY_INTERVAL = 5000;
+const SELECTOR_PATTERN =
+	/^(?=.)([a-zA-Z][\w-]*)?(#[\w-]+|\.[\w-]+|\[[\w-]+(=("[^"]*"|'[^']*'|[^\]"']*))?\])*$/;
+
+type SmokeCheck = {
+	path?: string;
+	status?: number;
+	contains?: string[];
+	selectors?: string[];
+	max_time?: number;
+};
+
+const DEFAULT_CHECKS: SmokeCheck[] = [{ path: '/', status: 200 }];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function parseAttributes(tag: string): Record<string, string> {
+	const attributes: Record<string, string> = {};
+	const pattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+	for (const match of tag.matchAll(pattern)) {
+		attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+	}
+	return attributes;
+}
+
+function matchesSelector(html: string, selector: string): boolean {
+	const tagName = selector.match(/^[a-zA-Z][\w-]*/)?.[0].toLowerCase() || null;
+	const parts = [
+		...selector.matchAll(/#([\w-]+)|\.([\w-]+)|\[([\w-]+)(?:=(?:"([^"]*)"|'([^']*)'|([^\]]*)))?\]/g)
+	];
+	for (const tag of html.matchAll(/<([a-zA-Z][\w-]*)([^>]*)>/g)) {
+		if (tagName != null && tag[1].toLowerCase() != tagName) continue;
+		const attributes = parseAttributes(tag[2]);
+		const classes = (attributes['class'] || '').split(/\s+/);
+		const isMatch = parts.every(([, id, className, name, ...values]) => {
+			if (id) return attributes['id'] == id;
+			if (className) return classes.includes(className);
+			const key = name.toLowerCase();
+			const value = values.find((x) => x !== undefined);
+			return key in attributes && (value === undefined || attributes[key] == value);
+		});
+		if (isMatch) return true;
+	}
+	return false;
+}
+
+async function waitForUrl(url: string, timeout: number): Promise<void> {
+	const deadline = Date.now() + timeout * 1000;
+	for (let attempt = 1; ; attempt++) {
+		try {
+			const response = await fetch(url);
+			if (response.ok) {
+				logger.debug(`Url ${url} reachable after ${attempt} attempts`);
+				return;
+			}
+			logger.debug(`Url ${url} returned status ${response.status}, attempt ${attempt}`);
+		} catch (error) {
+			logger.debug(`Url ${url} unreachable, attempt ${attempt}: ${error}`);
+		}
+		if (Date.now() + VERIFY_INTERVAL > deadline) {
+			throw new Error(`Url ${url} not reachable after ${timeout} seconds`);
+		}
+		await sleep(VERIFY_INTERVAL);
+	}
+}
+
+async function runCheck(url: string, check: SmokeCheck): Promise<string[]> {
+	const { path = '/', status = 200, contains = [], selectors = [], max_time } = check;
+	const checkUrl = new URL(path, url).toString();
+	logger.debug(`Checking url ${checkUrl}`);
+	const start = Date.now();
+	let response: Response, text: string;
+	try {
+		response = await fetch(checkUrl);
+		text = await response.text();
+	} catch (error) {
+		return [`${checkUrl}: request failed: ${error}`];
+	}
+	const elapsed = Date.now() - start;
+	const failures: string[] = [];
+	if (response.status != status) {
+		failures.push(`${checkUrl}: expected status ${status}, got ${response.status}`);
+	}
+	for (const value of contains.filter((x) => !text.includes(x))) {
+		failures.push(`${checkUrl}: missing text '${value}'`);
+	}
+	for (const selector of selectors.filter((x) => !matchesSelector(text, x))) {
+		failures.push(`${checkUrl}: missing element '${selector}'`);
+	}
+	if (max_time !== undefined && elapsed > max_time) {
+		failures.push(`${checkUrl}: responded in ${elapsed}ms, budget is ${max_time}ms`);
+	}
+	return failures;
+}
+
+async function verifyDeployment(
+	url: string,
+	checks: SmokeCheck[] = DEFAULT_CHECKS,
+	timeout: number = VERIFY_TIMEOUT
+): Promise<string[]> {
+	logger.info(`Verifying deployment at url ${url}`);
+	const failures: string[] = [];
+	try {
+		await waitForUrl(url, timeout);
+		for (const check of checks) {
+			failures.push(...(await runCheck(url, check)));
+		}
+	} catch (error) {
+		failures.push(`${error instanceof Error ? error.message : error}`);
+	}
+	failures.forEach((x) => logger.error(`Deployment check failed: ${x}`));
+	if (failures.length == 0) {
+		logger.info(`All ${checks.length} checks passed for url ${url}`);
+	}
+	return failures;
+}
+
+export type { SmokeCheck };
+export { DEFAULT_CHECKS, SELECTOR_PATTERN, VERIFY_TIMEOUT, verifyDeployment };
@@ -1,9 +1,17 @@
 import type { PlaywrightTestConfig } from '@playwright/test';
+import { GITHUB_STUB_URL, GITHUB_WEBHOOK_SECRET } from './tests/setup.ts';
 
 const config: PlaywrightTestConfig = {
+	globalSetup: './tests/setup.ts',
 	webServer: {
 		command: 'npm run build && npm run preview',
-		port: 4173
+		port: 4173,
+		env: {
+			GITHUB_API_URL: GITHUB_STUB_URL,
+			GITHUB_OWNER: 'nephelaiio',
+			GITHUB_TOKEN: '',
+			GITHUB_WEBHOOK_SECRET
+		}
 	},
 	testDir: 'tests'
 };
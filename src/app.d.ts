@@ -1,3 +1,5 @@
+import type { ExecutionContext, KVNamespace } from '@cloudflare/workers-types';
+
 // See https://kit.svelte.dev/docs/types#app
 // for information about these interfaces
 declare global {
@@ -8,7 +10,10 @@ declare global {
 		interface Platform {
 			env: {
 				GITHUB_TOKEN: string;
+				GITHUB_WEBHOOK_SECRET?: string;
+				FRONTPAGE_CACHE?: KVNamespace;
 			};
+			context: ExecutionContext;
 		}
 	}
 }
@@ -1,68 +1,460 @@
-import { logger } from './logger.ts';
+import { childLogger, correlatedLogger, redact } from './logger.ts';
+import { cachedResponse } from './cache.ts';
+import type { CacheOptions } from './cache.ts';
+import { cloudflareResultSchema } from './models.ts';
+import { z } from 'zod';
+import type { ZodType, ZodTypeDef } from 'zod';
+
+const logger = childLogger('api');
 
 type ApiMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
 
-async function genericAPI(
+type RetryOptions = {
+	retries: number;
+	minDelay: number;
+	maxDelay: number;
+	timeout: number;
+};
+
+type ApiSettings = RetryOptions & {
+	dryRun: boolean;
+	concurrency: number;
+	githubUrl: string;
+	cloudflareUrl: string;
+};
+
+type PlannedAction = {
+	action: string;
+	target: string;
+};
+
+type ApiOptions<T = unknown> = {
+	url?: string;
+	cache?: CacheOptions;
+	schema?: ZodType<T, ZodTypeDef, unknown>;
+	retry?: Partial<RetryOptions>;
+	requestId?: string;
+	// the request changes nothing even if it is not a GET, like a graphql query
+	readOnly?: boolean;
+};
+
+type ApiResponse = {
+	status: number;
+	headers: Headers;
+	body: unknown;
+};
+
+const GITHUB_API_URL = 'https://api.github.com';
+const CLOUDFLARE_API_URL = 'https://api.cloudflare.com/client/v4';
+const GITLAB_API_URL = 'https://gitlab.com/api/v4';
+const PAGE_SIZE = 100;
+const RETRY_STATUSES = [500, 502, 503, 504];
+
+const apiSettings: ApiSettings = {
+	retries: 3,
+	minDelay: 500,
+	maxDelay: 60000,
+	timeout: 30000,
+	dryRun: false,
+	concurrency: 4,
+	githubUrl: GITHUB_API_URL,
+	cloudflareUrl: CLOUDFLARE_API_URL
+};
+
+const dryRunPlan: PlannedAction[] = [];
+
+function planAction(action: string, target: string) {
+	logger.info(`Dry run, skipping ${action} ${target}`);
+	dryRunPlan.push({ action, target });
+}
+
+class ApiError extends Error {
+	method: ApiMethod;
+	url: string;
+	status: number | null;
+	headers: Headers;
+	body: string;
+
+	constructor(
+		message: string,
+		method: ApiMethod,
+		url: string,
+		status: number | null,
+		headers: Headers = new Headers(),
+		body = ''
+	) {
+		super(message);
+		this.name = 'ApiError';
+		this.method = method;
+		this.url = url;
+		this.status = status;
+		this.headers = headers;
+		this.body = body;
+	}
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function isRateLimited(error: ApiError): boolean {
+	if (error.status == 429) return true;
+	if (error.status != 403) return false;
+	const isExhausted = error.headers.get('x-ratelimit-remaining') == '0';
+	const isSecondary = error.headers.has('retry-after') || /rate limit/i.test(error.body);
+	return isExhausted || isSecondary;
+}
+
+function rateLimitDelay(error: ApiError): number | null {
+	const retryAfter = error.headers.get('retry-after');
+	if (retryAfter) {
+		const seconds = Number(retryAfter);
+		return isNaN(seconds) ? new Date(retryAfter).getTime() - Date.now() : seconds * 1000;
+	}
+	const reset = error.headers.get('x-ratelimit-reset');
+	if (reset && error.headers.get('x-ratelimit-remaining') == '0') {
+		return Number(reset) * 1000 - Date.now();
+	}
+	return null;
+}
+
+function retryDelay(error: ApiError, attempt: number, retry: RetryOptions): number | null {
+	if (attempt >= retry.retries) return null;
+	const backoff = Math.random() * Math.min(retry.maxDelay, retry.minDelay * 2 ** attempt);
+	if (isRateLimited(error)) {
+		const delay = rateLimitDelay(error);
+		if (delay == null) return backoff;
+		// waiting longer than the configured ceiling is worse than failing fast
+		return delay <= retry.maxDelay ? Math.max(delay, 0) : null;
+	}
+	// POST requests are not idempotent, so only rate limited ones are safe to replay
+	if (error.method == 'POST') return null;
+	const isTransient = error.status == null || RETRY_STATUSES.includes(error.status);
+	return isTransient ? backoff : null;
+}
+
+const requestId = () => Math.random().toString(36).slice(2, 10);
+
+async function bodyDigest(body: object | null): Promise<string> {
+	const data = new TextEncoder().encode(JSON.stringify(body));
+	const digest = await crypto.subtle.digest('SHA-256', data);
+	return [...new Uint8Array(digest)].map((x) => x.toString(16).padStart(2, '0')).join('');
+}
+
+async function genericAPIResponse(
 	url: string,
 	path: string,
 	method: ApiMethod = 'GET',
-	headers: HeadersInit,
-	body: object | null = null
-) {
+	headers: Record<string, string>,
+	body: object | null = null,
+	options: ApiOptions = {}
+): Promise<ApiResponse> {
 	const uri = `${url}/${path}`;
-	logger.debug(`${method} ${uri}`);
-	async function apiReturn(result: Response) {
+	const retry = { ...apiSettings, ...options.retry };
+	const log = correlatedLogger(logger, options.requestId || requestId());
+	if (apiSettings.dryRun && method != 'GET' && !options.readOnly) {
+		planAction(method, uri);
+		return { status: 204, headers: new Headers(), body: null };
+	}
+	log.debug(`${method} ${uri}`);
+	async function apiReturn(result: Response): Promise<ApiResponse> {
+		const { status } = result;
 		if (result.status == 204) {
-			logger.debug(`${method} ${uri} succeeded with status ${result.status}`);
-			return null;
+			log.debug(`${method} ${uri} succeeded with status ${result.status}`);
+			return { status, headers: result.headers, body: null };
+		} else if (result.status == 304) {
+			log.debug(`${method} ${uri} succeeded with status ${result.status}`);
+			return { status, headers: result.headers, body: null };
 		} else if (result.status == 404 && (method == 'DELETE' || method == 'GET')) {
-			logger.debug(`${method} ${uri} succeeded with empty response`);
-			return null;
+			log.debug(`${method} ${uri} succeeded with empty response`);
+			return { status, headers: result.headers, body: null };
 		} else if (!result.ok) {
-			logger.debug(`${method} ${uri} failed with status ${result.status}`);
-			logger.debug(`${method} ${uri} failed with message ${result.statusText}`);
-			throw new Error(`${method} ${uri} failed with status ${result.status}`);
+			log.debug(`${method} ${uri} failed with status ${result.status}`);
+			log.debug(`${method} ${uri} failed with message ${result.statusText}`);
+			throw new ApiError(
+				`${method} ${uri} failed with status ${result.status}`,
+				method,
+				uri,
+				status,
+				result.headers,
+				await result.text()
+			);
 		} else {
 			const response = await result.json();
-			return response;
+			return { status, headers: result.headers, body: response };
+		}
+	}
+	async function apiAttempt(requestHeaders: Record<string, string>) {
+		const controller = new AbortController();
+		const timer = setTimeout(() => controller.abort(), retry.timeout);
+		// multipart requests need fetch to generate the content type with its boundary
+		const isForm = body instanceof FormData;
+		const formHeaders = Object.entries(requestHeaders).filter(([k]) => k != 'Content-Type');
+		try {
+			const result = await fetch(uri, {
+				method,
+				headers: isForm ? Object.fromEntries(formHeaders) : requestHeaders,
+				body: isForm ? body : body != null ? JSON.stringify(body) : undefined,
+				signal: controller.signal
+			});
+			return await apiReturn(result);
+		} catch (error) {
+			if (error instanceof ApiError) {
+				throw error;
+			} else if (controller.signal.aborted) {
+				log.debug(`${method} ${uri} timed out after ${retry.timeout}ms`);
+				throw new ApiError(
+					`${method} ${uri} timed out after ${retry.timeout}ms`,
+					method,
+					uri,
+					null
+				);
+			} else {
+				log.debug(`${method} ${uri} failed with error ${error}`);
+				throw new ApiError(`${method} ${uri} failed with error ${error}`, method, uri, null);
+			}
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+	async function apiRequest(requestHeaders: Record<string, string>) {
+		for (let attempt = 0; ; attempt++) {
+			try {
+				return await apiAttempt(requestHeaders);
+			} catch (error) {
+				const delay = error instanceof ApiError ? retryDelay(error, attempt, retry) : null;
+				if (delay == null) throw error;
+				log.debug(
+					`Retrying ${method} ${uri} in ${Math.round(delay)}ms (${attempt + 1}/${retry.retries})`
+				);
+				await sleep(delay);
+			}
 		}
 	}
-	if (body != null) {
-		const result = await fetch(uri, { method, headers, body: JSON.stringify(body) });
-		return apiReturn(result);
-	} else {
-		const result = await fetch(uri, { method, headers });
-		return apiReturn(result);
+	if (options.cache && method == 'GET') {
+		return cachedResponse(options.cache, uri, (cacheHeaders) =>
+			apiRequest({ ...headers, ...cacheHeaders })
+		);
+	} else if (options.cache && options.readOnly) {
+		// requests sharing a url differ by their body, so it is part of the key
+		const key = `${uri}#${await bodyDigest(body)}`;
+		return cachedResponse(options.cache, key, () => apiRequest(headers));
 	}
+	return apiRequest(headers);
 }
 
-const githubAPI = (
-	githubToken: string,
+async function genericAPI<T = unknown>(
+	url: string,
 	path: string,
 	method: ApiMethod = 'GET',
-	body: object | null = null
-) => {
-	const headers = {
+	headers: Record<string, string>,
+	body: object | null = null,
+	options: ApiOptions<T> = {}
+): Promise<T | null> {
+	const response = await genericAPIResponse(url, path, method, headers, body, options);
+	if (response.body === null) {
+		return null;
+	}
+	return validateResponse(`${method} ${url}/${path}`, response.body, options.schema);
+}
+
+function validateResponse<T>(
+	request: string,
+	body: unknown,
+	schema?: ZodType<T, ZodTypeDef, unknown>
+): T {
+	if (!schema) {
+		return body as T;
+	}
+	const validation = schema.safeParse(body);
+	if (!validation.success) {
+		const issues = validation.error.issues.map((x) => `'${x.path.join('.')}' ${x.message}`);
+		logger.debug(`${request} returned unexpected response: ${issues.join(', ')}`);
+		throw new Error(`${request} returned unexpected response: ${issues.join(', ')}`);
+	}
+	return validation.data;
+}
+
+const withQuery = (path: string, query: string) =>
+	`${path}${path.includes('?') ? '&' : '?'}${query}`;
+
+function nextLink(headers: Headers): string | null {
+	const link = headers.get('link');
+	if (!link) return null;
+	const next = link
+		.split(',')
+		.map((x) => x.match(/<([^>]+)>;\s*rel="([^"]+)"/))
+		.find((x) => x && x[2] == 'next');
+	return next ? next[1] : null;
+}
+
+async function* linkPaginate<T>(
+	url: string,
+	path: string,
+	headers: Record<string, string>,
+	options: ApiOptions<T> = {}
+): AsyncGenerator<T> {
+	const schema = z.array(options.schema || z.unknown());
+	let pagePath: string | null = withQuery(path, `per_page=${PAGE_SIZE}`);
+	while (pagePath != null) {
+		const response = await genericAPIResponse(url, pagePath, 'GET', headers, null, options);
+		const items = validateResponse(`GET ${url}/${pagePath}`, response.body || [], schema);
+		for (const item of items) {
+			yield item as T;
+		}
+		const next = nextLink(response.headers);
+		if (next && !next.startsWith(`${url}/`)) {
+			throw new Error(`GET ${url}/${pagePath} returned unexpected next page '${next}'`);
+		}
+		pagePath = next ? next.slice(url.length + 1) : null;
+	}
+}
+
+const githubPaginate = <T>(githubToken: string, path: string, options: ApiOptions<T> = {}) =>
+	linkPaginate(options.url || apiSettings.githubUrl, path, githubHeaders(githubToken), options);
+
+const gitlabPaginate = <T>(gitlabToken: string, path: string, options: ApiOptions<T> = {}) =>
+	linkPaginate(options.url || GITLAB_API_URL, path, gitlabHeaders(gitlabToken), options);
+
+async function* cloudflarePaginate<T>(
+	cloudflareToken: string,
+	path: string,
+	options: ApiOptions<T> = {}
+): AsyncGenerator<T> {
+	const url = options.url || apiSettings.cloudflareUrl;
+	const schema = cloudflareResultSchema(z.array(options.schema || z.unknown()));
+	for (let page = 1; ; page++) {
+		const pagePath = withQuery(path, `page=${page}`);
+		const response = await genericAPIResponse(
+			url,
+			pagePath,
+			'GET',
+			cloudflareHeaders(cloudflareToken),
+			null,
+			options
+		);
+		if (response.body === null) return;
+		const { result, result_info } = validateResponse(
+			`GET ${url}/${pagePath}`,
+			response.body,
+			schema
+		);
+		for (const item of result) {
+			yield item as T;
+		}
+		// some endpoints omit total_pages, the page count still follows from the totals
+		const totalPages =
+			result_info?.total_pages ??
+			(result_info && result_info.per_page > 0
+				? Math.ceil(result_info.total_count / result_info.per_page)
+				: null);
+		const isLast = totalPages != null ? page >= totalPages : result.length == 0;
+		if (!result_info || isLast) return;
+	}
+}
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+	const result: T[] = [];
+	for await (const item of items) {
+		result.push(item);
+	}
+	return result;
+}
+
+async function mapConcurrent<T, R>(
+	items: T[],
+	limit: number,
+	fn: (item: T) => Promise<R>
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await fn(items[index]);
+		}
+	};
+	await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+	return results;
+}
+
+function githubHeaders(githubToken: string): Record<string, string> {
+	const headers: Record<string, string> = {
 		'Content-Type': 'application/json',
-		Accept: 'application/vnd.github.v3+json',
-		Authorization: `token ${githubToken}`
+		Accept: 'application/vnd.github.v3+json'
 	};
-	return genericAPI('https://api.github.com', path, method, headers, body);
+	if (githubToken) {
+		redact(githubToken);
+		headers['Authorization'] = `token ${githubToken}`;
+	}
+	return headers;
+}
+
+function gitlabHeaders(gitlabToken: string): Record<string, string> {
+	redact(gitlabToken);
+	return {
+		'Content-Type': 'application/json',
+		Accept: 'application/json',
+		Authorization: `Bearer ${gitlabToken}`
+	};
+}
+
+function cloudflareHeaders(cloudflareToken: string): Record<string, string> {
+	redact(cloudflareToken);
+	return {
+		'Content-Type': 'application/json',
+		Accept: 'application/json',
+		Authorization: `Bearer ${cloudflareToken}`
+	};
+}
+
+const githubAPI = <T = unknown>(
+	githubToken: string,
+	path: string,
+	method: ApiMethod = 'GET',
+	body: object | null = null,
+	options: ApiOptions<T> = {}
+) => {
+	const headers = githubHeaders(githubToken);
+	return genericAPI(options.url || apiSettings.githubUrl, path, method, headers, body, options);
+};
+
+const gitlabAPI = <T = unknown>(
+	gitlabToken: string,
+	path: string,
+	method: ApiMethod = 'GET',
+	body: object | null = null,
+	options: ApiOptions<T> = {}
+) => {
+	const headers = gitlabHeaders(gitlabToken);
+	return genericAPI(options.url || GITLAB_API_URL, path, method, headers, body, options);
 };
 
-const cloudflareAPI = (
+const cloudflareAPI = <T = unknown>(
 	cloudflareToken: string,
 	path: string,
 	method: ApiMethod = 'GET',
-	body: object | null = null
+	body: object | null = null,
+	options: ApiOptions<T> = {}
 ) => {
-	const headers = {
-		'Content-Type': 'application/json',
-		Accept: 'application/json',
-		Authorization: `Bearer ${cloudflareToken}`
-	};
-	return genericAPI('https://api.cloudflare.com/client/v4', path, method, headers, body);
+	const headers = cloudflareHeaders(cloudflareToken);
+	return genericAPI(options.url || apiSettings.cloudflareUrl, path, method, headers, body, options);
 };
 
-export type { ApiMethod };
-export { genericAPI, githubAPI, cloudflareAPI };
+export type { ApiMethod, ApiOptions, ApiResponse, ApiSettings, PlannedAction, RetryOptions };
+export {
+	GITHUB_API_URL,
+	CLOUDFLARE_API_URL,
+	ApiError,
+	apiSettings,
+	dryRunPlan,
+	planAction,
+	genericAPIResponse,
+	genericAPI,
+	githubAPI,
+	gitlabAPI,
+	cloudflareAPI,
+	githubPaginate,
+	gitlabPaginate,
+	cloudflarePaginate,
+	collect,
+	mapConcurrent
+};
@@ -0,0 +1,158 @@
+import type { KVNamespace, KVNamespaceListResult } from '@cloudflare/workers-types';
+import type { ApiResponse } from './api.ts';
+import { childLogger } from './logger.ts';
+
+const logger = childLogger('cache');
+
+const CACHE_MAX_AGE = 300;
+const CACHE_STALE_WHILE_REVALIDATE = 3600;
+const CACHE_RETENTION = 86400;
+// missing releases and readmes answer 404, caching them keeps repeated loads off the rate limit
+const CACHE_STATUSES = [200, 204, 404];
+
+type CacheEntry = {
+	status: number;
+	headers: Record<string, string>;
+	body: unknown;
+	storedAt: number;
+};
+
+type CacheStore = {
+	get(key: string): Promise<CacheEntry | null>;
+	put(key: string, entry: CacheEntry): Promise<void>;
+	delete(key: string): Promise<void>;
+	keys(prefix: string): Promise<string[]>;
+};
+
+type CacheOptions = {
+	store: CacheStore;
+	maxAge: number;
+	staleWhileRevalidate: number;
+	waitUntil?: (promise: Promise<unknown>) => void;
+};
+
+function kvStore(namespace: KVNamespace): CacheStore {
+	return {
+		get: (key: string) => namespace.get<CacheEntry>(key, 'json'),
+		put: (key: string, entry: CacheEntry) =>
+			namespace.put(key, JSON.stringify(entry), { expirationTtl: CACHE_RETENTION }),
+		delete: (key: string) => namespace.delete(key),
+		keys: async (prefix: string) => {
+			const keys: string[] = [];
+			let cursor: string | undefined = undefined;
+			do {
+				const page: KVNamespaceListResult<unknown> = await namespace.list({ prefix, cursor });
+				keys.push(...page.keys.map((x) => x.name));
+				cursor = page.list_complete ? undefined : page.cursor;
+			} while (cursor);
+			return keys;
+		}
+	};
+}
+
+function memoryStore(): CacheStore {
+	const entries = new Map<string, CacheEntry>();
+	return {
+		get: async (key: string) => {
+			const entry = entries.get(key);
+			if (entry && Date.now() - entry.storedAt > CACHE_RETENTION * 1000) {
+				entries.delete(key);
+				return null;
+			}
+			return entry || null;
+		},
+		put: async (key: string, entry: CacheEntry) => {
+			entries.set(key, entry);
+		},
+		delete: async (key: string) => {
+			entries.delete(key);
+		},
+		keys: async (prefix: string) => [...entries.keys()].filter((x) => x.startsWith(prefix))
+	};
+}
+
+const localStore = memoryStore();
+
+function platformCache(platform?: App.Platform): CacheOptions {
+	const namespace = platform?.env.FRONTPAGE_CACHE;
+	if (!namespace) {
+		logger.debug('No KV namespace bound, using in-memory cache');
+	}
+	return {
+		store: namespace ? kvStore(namespace) : localStore,
+		maxAge: CACHE_MAX_AGE,
+		staleWhileRevalidate: CACHE_STALE_WHILE_REVALIDATE,
+		waitUntil: platform?.context ? (p) => platform.context.waitUntil(p) : undefined
+	};
+}
+
+const fromEntry = (entry: CacheEntry): ApiResponse => ({
+	status: entry.status,
+	headers: new Headers(entry.headers),
+	body: entry.body
+});
+
+async function revalidate(
+	cache: CacheOptions,
+	key: string,
+	entry: CacheEntry | null,
+	request: (headers: Record<string, string>) => Promise<ApiResponse>
+): Promise<ApiResponse> {
+	const etag = entry?.headers['etag'];
+	const response = await request(etag ? { 'If-None-Match': etag } : {});
+	if (response.status == 304 && entry) {
+		logger.debug(`Cache entry for '${key}' not modified`);
+		await cache.store.put(key, { ...entry, storedAt: Date.now() });
+		return fromEntry(entry);
+	} else if (CACHE_STATUSES.includes(response.status)) {
+		logger.debug(`Caching response for '${key}'`);
+		await cache.store.put(key, {
+			status: response.status,
+			headers: Object.fromEntries(response.headers.entries()),
+			body: response.body,
+			storedAt: Date.now()
+		});
+	}
+	return response;
+}
+
+async function cachedResponse(
+	cache: CacheOptions,
+	key: string,
+	request: (headers: Record<string, string>) => Promise<ApiResponse>
+): Promise<ApiResponse> {
+	const entry = await cache.store.get(key);
+	const age = entry ? (Date.now() - entry.storedAt) / 1000 : Infinity;
+	if (entry && age < cache.maxAge) {
+		logger.debug(`Cache hit for '${key}'`);
+		return fromEntry(entry);
+	}
+	const revalidation = revalidate(cache, key, entry, request);
+	if (entry && age < cache.maxAge + cache.staleWhileRevalidate) {
+		logger.debug(`Serving stale cache entry for '${key}'`);
+		const background = revalidation.catch((error) => {
+			logger.warn(`Unable to revalidate cache entry for '${key}': ${error}`);
+		});
+		if (cache.waitUntil) cache.waitUntil(background);
+		return fromEntry(entry);
+	}
+	logger.debug(`Cache miss for '${key}'`);
+	return revalidation;
+}
+
+// a prefix matches its own key and any key nested under it by path or query
+const matchesPrefix = (key: string, prefix: string) =>
+	key == prefix || key.startsWith(`${prefix}/`) || key.startsWith(`${prefix}?`);
+
+async function invalidateCache(cache: CacheOptions, prefixes: string[]): Promise<string[]> {
+	const candidates = await Promise.all(prefixes.map((x) => cache.store.keys(x)));
+	const keys = [...new Set(candidates.flat())].filter((key) =>
+		prefixes.some((prefix) => matchesPrefix(key, prefix))
+	);
+	await Promise.all(keys.map((x) => cache.store.delete(x)));
+	logger.debug(`Invalidated ${keys.length} cache entries`);
+	return keys;
+}
+
+export type { CacheEntry, CacheStore, CacheOptions };
+export { kvStore, memoryStore, platformCache, cachedResponse, invalidateCache };
@@ -0,0 +1,118 @@
+import * as toml from 'toml';
+import { z } from 'zod';
+
+import { childLogger } from './logger.ts';
+import type { RepoSummary } from './github.ts';
+
+const logger = childLogger('curation');
+
+const CURATION_FILE = '/curation.toml';
+
+const sectionSchema = z
+	.object({
+		title: z.string(),
+		names: z.array(z.string()).default([]),
+		topics: z.array(z.string()).default([])
+	})
+	.strict();
+
+const curationSchema = z
+	.object({
+		pinned: z.array(z.string()).optional(),
+		github_pinned: z.boolean().default(true),
+		hide: z
+			.object({
+				names: z.array(z.string()).default([]),
+				topics: z.array(z.string()).default([])
+			})
+			.strict()
+			.default({}),
+		descriptions: z.record(z.string()).default({}),
+		sections: z.array(sectionSchema).default([]),
+		default_section: z.string().default('Other')
+	})
+	.strict();
+
+type Curation = z.infer<typeof curationSchema>;
+
+type RepoSection<T extends RepoSummary = RepoSummary> = {
+	title: string | null;
+	repos: T[];
+};
+
+let loadedCuration: Curation | null = null;
+
+function parseCuration(source: string, path: string = CURATION_FILE): Curation {
+	let data: unknown;
+	try {
+		data = toml.parse(source);
+	} catch (error) {
+		const { line, column, message } = error as { line?: number; column?: number; message: string };
+		const location = line != null ? ` at line ${line}, column ${column}` : '';
+		throw new Error(`Unable to parse curation file '${path}'${location}: ${message}`);
+	}
+	const validation = curationSchema.safeParse(data);
+	if (!validation.success) {
+		const issues = validation.error.issues.map((x) => `'${x.path.join('.')}' ${x.message}`);
+		throw new Error(`Invalid curation file '${path}': ${issues.join(', ')}`);
+	}
+	return validation.data;
+}
+
+function loadCuration(): Curation {
+	if (!loadedCuration) {
+		const sources = import.meta.glob('/curation.toml', { as: 'raw', eager: true });
+		const source = sources[CURATION_FILE];
+		if (source == null) {
+			logger.debug(`Curation file '${CURATION_FILE}' not found, using defaults`);
+		}
+		loadedCuration = parseCuration(source || '');
+	}
+	return loadedCuration;
+}
+
+function isHidden(repo: RepoSummary, curation: Curation): boolean {
+	const { names, topics } = curation.hide;
+	return names.includes(repo.name) || repo.topics.some((x) => topics.includes(x));
+}
+
+function curateRepo<T extends RepoSummary>(repo: T, curation: Curation): T {
+	const description = curation.descriptions[repo.name];
+	return description != null ? { ...repo, description } : repo;
+}
+
+function curateRepos<T extends RepoSummary>(
+	repos: T[],
+	curation: Curation,
+	pinned: string[] = []
+): T[] {
+	const rank = (x: T) => {
+		const index = pinned.indexOf(x.name);
+		return index < 0 ? pinned.length : index;
+	};
+	// sort is stable, so unpinned repositories keep their listing order
+	return repos
+		.filter((x) => !isHidden(x, curation))
+		.map((x) => curateRepo(x, curation))
+		.sort((x, y) => rank(x) - rank(y));
+}
+
+function sectionRepos<T extends RepoSummary>(repos: T[], curation: Curation): RepoSection<T>[] {
+	if (curation.sections.length == 0) {
+		return [{ title: null, repos }];
+	}
+	const sections = curation.sections.map(({ title }) => ({ title, repos: [] as T[] }));
+	const defaultSection = { title: curation.default_section, repos: [] as T[] };
+	for (const repo of repos) {
+		const byName = curation.sections.findIndex((x) => x.names.includes(repo.name));
+		const byTopic = curation.sections.findIndex((x) =>
+			x.topics.some((topic) => repo.topics.includes(topic))
+		);
+		const index = byName >= 0 ? byName : byTopic;
+		(index >= 0 ? sections[index] : defaultSection).repos.push(repo);
+	}
+	return [...sections, defaultSection].filter((x) => x.repos.length > 0);
+}
+
+export type { Curation, RepoSection };
+export { parseCuration, loadCuration, isHidden, curateRepo, curateRepos, sectionRepos };
@@ -1,20 +1,131 @@
-import { logger } from './logger.ts';
-import { githubAPI } from './api.ts';
+import { childLogger } from './logger.ts';
+import { curateRepos } from './curation.ts';
+import type { Curation } from './curation.ts';
+import { ApiError, apiSettings, collect, githubAPI, githubPaginate, mapConcurrent } from './api.ts';
+import type { ApiOptions } from './api.ts';
+import {
+	branchSchema,
+	commitSchema,
+	deploymentSchema,
+	deploymentStatusSchema,
+	environmentListSchema,
+	issueCommentSchema,
+	searchCountSchema,
+	languagesSchema,
+	pinnedItemsSchema,
+	pullRequestSchema,
+	readmeSchema,
+	releaseSchema,
+	repositorySchema,
+	workflowRunListSchema
+} from './models.ts';
+import type {
+	Deployment,
+	DeploymentStatus,
+	Environment,
+	PullRequest,
+	Repository
+} from './models.ts';
+import { z } from 'zod';
 
-async function listGithubDeployments(githubToken: string, repository: string, environment: string) {
+const logger = childLogger('github');
+
+type RepoFilter = {
+	forks?: boolean;
+	archived?: boolean;
+	curation?: Curation;
+};
+
+type RepoSummary = {
+	name: string;
+	url: string;
+	description: string | null;
+	language: string | null;
+	stars: number;
+	topics: string[];
+	pushedAt: string | null;
+	branch: string;
+};
+
+type RepoDetails = RepoSummary & {
+	readme: { path: string; url: string; markdown: string } | null;
+	release: { name: string; tag: string; url: string; publishedAt: string | null } | null;
+	languages: { name: string; bytes: number; share: number }[];
+	commits: {
+		sha: string;
+		url: string;
+		message: string;
+		author: string | null;
+		date: string | null;
+	}[];
+};
+
+type BuildStatus = {
+	state: string;
+	workflow: string | null;
+	url: string;
+};
+
+type RepoStatus = RepoSummary & {
+	build: BuildStatus | null;
+	release: string | null;
+	issues: number | null;
+	pulls: number | null;
+};
+
+const GITHUB_OWNER = 'nephelaiio';
+const RECENT_COMMITS = 5;
+const PINNED_ITEMS = 6;
+
+const PINNED_QUERY = `
+	query ($owner: String!, $first: Int!) {
+		repositoryOwner(login: $owner) {
+			pinnedItems(first: $first, types: REPOSITORY) {
+				nodes {
+					... on Repository {
+						name
+						owner {
+							login
+						}
+					}
+				}
+			}
+		}
+	}
+`;
+
+const decodeBase64 = (content: string) =>
+	new TextDecoder().decode(
+		Uint8Array.from(atob(content.replace(/\s/g, '')), (c) => c.charCodeAt(0))
+	);
+
+const repoSummary = (x: Repository): RepoSummary => ({
+	name: x.name,
+	url: x.html_url,
+	description: x.description,
+	language: x.language,
+	stars: x.stargazers_count,
+	topics: x.topics,
+	pushedAt: x.pushed_at,
+	branch: x.default_branch
+});
+
+async function listGithubDeployments(
+	githubToken: string,
+	repository: string,
+	environment: string
+): Promise<Deployment[]> {
 	logger.debug(`Listing deployments for repository '${repository}', environment '${environment}'`);
 	const query = `ref=${environment}&environment=${environment}`;
-	const deploymentRecords = await githubAPI(
-		githubToken,
-		`repos/${repository}/deployments?${query}`,
-		'GET'
+	const deployments = await collect(
+		githubPaginate(githubToken, `repos/${repository}/deployments?${query}`, {
+			schema: deploymentSchema
+		})
 	);
-	const deployments = deploymentRecords || [];
-	// eslint-disable-next-line @typescript-eslint/no-explicit-any
-	const sortedDeployments = deployments.sort((x: any, y: any) => {
+	const sortedDeployments = deployments.sort((x, y) => {
 		const xDate = new Date(x.updated_at);
 		const yDate = new Date(y.updated_at);
-		xDate <= yDate;
+		return xDate.getTime() - yDate.getTime();
 	});
 	logger.debug(
 		`Found ${sortedDeployments.length} deployments for repository '${repository}', environment '${environment}'`
@@ -22,22 +133,73 @@ async function listGithubDeployments(githubToken: string, repository: string, en
 	return sortedDeployments;
 }
 
-async function initGithubDeployment(githubToken: string, repository: string, environment: string) {
+async function latestGithubDeploymentStatus(
+	githubToken: string,
+	repository: string,
+	deploymentId: number
+): Promise<DeploymentStatus | null> {
+	logger.debug(`Retrieving latest status for deployment '${deploymentId}'`);
+	const statuses = await githubAPI(
+		githubToken,
+		`repos/${repository}/deployments/${deploymentId}/statuses?per_page=1`,
+		'GET',
+		null,
+		{ schema: z.array(deploymentStatusSchema) }
+	);
+	return statuses?.[0] || null;
+}
+
+async function listGithubEnvironments(
+	githubToken: string,
+	repository: string
+): Promise<Environment[]> {
+	logger.debug(`Listing environments for repository '${repository}'`);
+	const environments: Environment[] = [];
+	for (let page = 1; ; page++) {
+		const environmentRecords = await githubAPI(
+			githubToken,
+			`repos/${repository}/environments?per_page=100&page=${page}`,
+			'GET',
+			null,
+			{ schema: environmentListSchema }
+		);
+		const pageEnvironments = environmentRecords?.environments || [];
+		environments.push(...pageEnvironments);
+		const totalCount = environmentRecords?.total_count || 0;
+		if (pageEnvironments.length == 0 || environments.length >= totalCount) break;
+	}
+	logger.debug(`Found ${environments.length} environments for repository '${repository}'`);
+	return environments;
+}
+
+async function initGithubDeployment(
+	githubToken: string,
+	repository: string,
+	environment: string
+): Promise<number | null> {
 	logger.debug(`Retrieving Github deployment for environment '${environment}'`);
 	const deploymentRecords = await listGithubDeployments(githubToken, repository, environment);
 	const deployments = deploymentRecords || [];
 	if (deployments.length > 0) {
-		const deployment = deployments[0];
+		const deployment = deployments[deployments.length - 1];
 		logger.debug(`Found existing deployment with id ${deployment.id}`);
 		return deployment.id;
 	} else {
-		const deployment = await githubAPI(githubToken, `repos/${repository}/deployments`, 'POST', {
-			ref: environment,
-			environment: environment,
-			required_contexts: [],
-			transient_environment: true
-		});
-		if (!deployment) {
+		const deployment = await githubAPI(
+			githubToken,
+			`repos/${repository}/deployments`,
+			'POST',
+			{
+				ref: environment,
+				environment: environment,
+				required_contexts: [],
+				transient_environment: true
+			},
+			{ schema: deploymentSchema }
+		);
+		if (!deployment && apiSettings.dryRun) {
+			return null;
+		} else if (!deployment) {
 			logger.debug(`Unable to create deployment for repository ${repository}`);
 			throw new Error(`Unable to create deployment for repository ${repository}`);
 		} else {
@@ -51,7 +213,9 @@ async function createGithubDeployment(
 	githubToken: string,
 	repository: string,
 	environment: string,
-	url: string
+	url: string,
+	description: string | null = null,
+	state: 'success' | 'failure' = 'success'
 ) {
 	logger.debug(
 		`Creating Github deployment for repository '${repository}', environment '${environment}'`
@@ -61,7 +225,8 @@ async function createGithubDeployment(
 		reviewers: null,
 		deployment_branch_policy: null
 	});
-	const deploymentId = await initGithubDeployment(`${githubToken}`, repository, environment);
+	const deploymentRecord = await initGithubDeployment(`${githubToken}`, repository, environment);
+	const deploymentId = deploymentRecord ?? '<new>';
 	logger.debug(`Created deployment with id '${deploymentId}'`);
 	logger.debug(`Creating Github deployment status for deployment '${deploymentId}'`);
 	const deploymentStatus = await githubAPI(
@@ -69,12 +234,16 @@ async function createGithubDeployment(
 		`repos/${repository}/deployments/${deploymentId}/statuses`,
 		'POST',
 		{
-			state: 'success',
+			state,
 			environment_url: url,
-			auto_inactive: true
-		}
+			auto_inactive: true,
+			...(description ? { description } : {})
+		},
+		{ schema: deploymentStatusSchema }
 	);
-	if (!deploymentStatus) {
+	if (!deploymentStatus && apiSettings.dryRun) {
+		return;
+	} else if (!deploymentStatus) {
 		logger.debug(`Unable to create deployment status for deployment ${deploymentId}`);
 		throw new Error(`Unable to create deployment status for deployment ${deploymentId}`);
 	} else {
@@ -82,35 +251,310 @@ async function createGithubDeployment(
 	}
 }
 
-async function cleanGithubDeployments(
+async function deleteGithubDeployment(
 	githubToken: string,
 	repository: string,
-	environment: string,
-	maxDeployments: number
+	deploymentId: number
 ): Promise<void> {
-	// eslint-disable-next-line @typescript-eslint/no-explicit-any
-	const allDeployments = await listGithubDeployments(githubToken, repository, environment);
-	logger.debug(`Found ${allDeployments.length} deployments for environment '${environment}'`);
-	if (allDeployments.length > maxDeployments) {
-		// eslint-disable-next-line @typescript-eslint/no-explicit-any
-		const extraDeployments = allDeployments.slice(0, allDeployments.length - maxDeployments);
-		logger.debug(`Removing ${extraDeployments.length} deployments`);
-		// eslint-disable-next-line @typescript-eslint/no-explicit-any
-		for (const deployment of extraDeployments) {
-			logger.debug(`Removing deployment '${deployment.id}': '${deployment.updated_at}'`);
-			const inactive = { state: 'inactive' };
-			await githubAPI(
-				githubToken,
-				`repos/${repository}/deployments/${deployment.id}/statuses`,
-				'POST',
-				inactive
-			);
-			await githubAPI(githubToken, `repos/${repository}/deployments/${deployment.id}`, 'DELETE');
-			logger.debug(`Deployment '${deployment.id}' removed`);
+	const inactive = { state: 'inactive' };
+	await githubAPI(
+		githubToken,
+		`repos/${repository}/deployments/${deploymentId}/statuses`,
+		'POST',
+		inactive
+	);
+	await githubAPI(githubToken, `repos/${repository}/deployments/${deploymentId}`, 'DELETE');
+	logger.debug(`Deployment '${deploymentId}' removed`);
+}
+
+async function listGithubBranches(githubToken: string, repository: string): Promise<string[]> {
+	logger.debug(`Listing branches for repository '${repository}'`);
+	const branches = await collect(
+		githubPaginate(githubToken, `repos/${repository}/branches`, { schema: branchSchema })
+	);
+	logger.debug(`Found ${branches.length} branches for repository '${repository}'`);
+	return branches.map((x) => x.name);
+}
+
+async function listGithubPullRequests(
+	githubToken: string,
+	repository: string,
+	state: 'open' | 'closed' | 'all' = 'open'
+): Promise<PullRequest[]> {
+	logger.debug(`Listing ${state} pull requests for repository '${repository}'`);
+	const pulls = await collect(
+		githubPaginate(githubToken, `repos/${repository}/pulls?state=${state}`, {
+			schema: pullRequestSchema
+		})
+	);
+	logger.debug(`Found ${pulls.length} ${state} pull requests for repository '${repository}'`);
+	return pulls;
+}
+
+async function findGithubPullRequest(
+	githubToken: string,
+	repository: string,
+	branch: string
+): Promise<PullRequest | null> {
+	logger.debug(`Looking up pull request for branch '${branch}' in repository '${repository}'`);
+	const owner = repository.split('/')[0];
+	const query = `head=${owner}:${encodeURIComponent(branch)}&state=all&sort=updated&direction=desc`;
+	const pulls = await githubAPI(githubToken, `repos/${repository}/pulls?${query}`, 'GET', null, {
+		schema: z.array(pullRequestSchema)
+	});
+	const pull = pulls?.find((x) => x.head.ref == branch) || null;
+	if (pull) {
+		logger.debug(`Found pull request #${pull.number} for branch '${branch}'`);
+	}
+	return pull;
+}
+
+async function upsertGithubComment(
+	githubToken: string,
+	repository: string,
+	issue: number,
+	marker: string,
+	body: string
+): Promise<void> {
+	const comments = await collect(
+		githubPaginate(githubToken, `repos/${repository}/issues/${issue}/comments`, {
+			schema: issueCommentSchema
+		})
+	);
+	const comment = comments.find((x) => x.body?.includes(marker));
+	const content = { body: `${marker}\n${body}` };
+	if (comment) {
+		logger.debug(`Updating comment '${comment.id}' on issue #${issue}`);
+		await githubAPI(
+			githubToken,
+			`repos/${repository}/issues/comments/${comment.id}`,
+			'PATCH',
+			content
+		);
+	} else {
+		logger.debug(`Creating comment on issue #${issue}`);
+		await githubAPI(githubToken, `repos/${repository}/issues/${issue}/comments`, 'POST', content);
+	}
+}
+
+async function listRepos(
+	githubToken: string,
+	owner: string,
+	filter: RepoFilter = {},
+	options: ApiOptions = {}
+): Promise<RepoSummary[]> {
+	logger.debug(`Listing repositories for owner '${owner}'`);
+	const { forks = false, archived = false, curation } = filter;
+	const repoRecords: Repository[] = await collect(
+		githubPaginate(githubToken, `users/${owner}/repos?type=owner&sort=pushed`, {
+			...options,
+			schema: repositorySchema
+		})
+	);
+	const repos = repoRecords
+		.filter((x) => forks || !x.fork)
+		.filter((x) => archived || !x.archived)
+		.map(repoSummary);
+	logger.debug(`Found ${repos.length} repositories for owner '${owner}'`);
+	if (!curation) {
+		return repos;
+	}
+	const pinned =
+		curation.pinned ||
+		(curation.github_pinned ? await listPinnedRepos(githubToken, owner, options) : []);
+	const curated = curateRepos(repos, curation, pinned);
+	logger.debug(`Showcasing ${curated.length} curated repositories for owner '${owner}'`);
+	return curated;
+}
+
+async function listPinnedRepos(
+	githubToken: string,
+	owner: string,
+	options: ApiOptions = {}
+): Promise<string[]> {
+	if (!githubToken) {
+		logger.debug(`Skipping pinned repositories for owner '${owner}', graphql requires a token`);
+		return [];
+	}
+	logger.debug(`Listing pinned repositories for owner '${owner}'`);
+	try {
+		const response = await githubAPI(
+			githubToken,
+			'graphql',
+			'POST',
+			{ query: PINNED_QUERY, variables: { owner, first: PINNED_ITEMS } },
+			{ ...options, readOnly: true, schema: pinnedItemsSchema }
+		);
+		if (response?.errors?.length) {
+			throw new Error(response.errors.map((x) => x.message).join(', '));
 		}
+		const nodes = response?.data?.repositoryOwner?.pinnedItems.nodes || [];
+		return nodes
+			.filter((x) => x.owner.login.toLowerCase() == owner.toLowerCase())
+			.map((x) => x.name);
+	} catch (error) {
+		logger.warn(`Unable to list pinned repositories for owner '${owner}': ${error}`);
+		return [];
 	}
 }
 
-const listRepos = () => 'TODO: list repos';
+// the search api returns open counts in one request, listing issues pages through all of them
+async function searchCount(
+	githubToken: string,
+	query: string,
+	options: ApiOptions = {}
+): Promise<number | null> {
+	const result = await githubAPI(
+		githubToken,
+		`search/issues?q=${encodeURIComponent(query)}&per_page=1`,
+		'GET',
+		null,
+		{ ...options, schema: searchCountSchema }
+	);
+	return result ? result.total_count : null;
+}
+
+async function getRepoStatus(
+	githubToken: string,
+	owner: string,
+	repo: RepoSummary,
+	options: ApiOptions = {}
+): Promise<RepoStatus> {
+	const path = `repos/${owner}/${repo.name}`;
+	const branch = encodeURIComponent(repo.branch);
+	try {
+		const [runs, release, issues, pulls] = await Promise.all([
+			githubAPI(
+				githubToken,
+				`${path}/actions/runs?branch=${branch}&exclude_pull_requests=true&per_page=1`,
+				'GET',
+				null,
+				{ ...options, schema: workflowRunListSchema }
+			),
+			githubAPI(githubToken, `${path}/releases/latest`, 'GET', null, {
+				...options,
+				schema: releaseSchema
+			}),
+			searchCount(githubToken, `repo:${owner}/${repo.name} is:issue is:open`, options),
+			searchCount(githubToken, `repo:${owner}/${repo.name} is:pr is:open`, options)
+		]);
+		const run = runs?.workflow_runs[0];
+		return {
+			...repo,
+			build: run
+				? {
+						state: run.conclusion || run.status || 'unknown',
+						workflow: run.name || null,
+						url: run.html_url
+				  }
+				: null,
+			release: release?.tag_name || null,
+			issues,
+			pulls
+		};
+	} catch (error) {
+		logger.warn(`Unable to retrieve status for repository '${owner}/${repo.name}': ${error}`);
+		return { ...repo, build: null, release: null, issues: null, pulls: null };
+	}
+}
+
+async function listRepoStatuses(
+	githubToken: string,
+	owner: string,
+	repos: RepoSummary[],
+	options: ApiOptions = {}
+): Promise<RepoStatus[]> {
+	logger.debug(`Retrieving status for ${repos.length} repositories for owner '${owner}'`);
+	return mapConcurrent(repos, apiSettings.concurrency, (repo) =>
+		getRepoStatus(githubToken, owner, repo, options)
+	);
+}
+
+async function getRepoDetails(
+	githubToken: string,
+	owner: string,
+	name: string,
+	options: ApiOptions = {}
+): Promise<RepoDetails | null> {
+	logger.debug(`Retrieving details for repository '${owner}/${name}'`);
+	const path = `repos/${owner}/${name}`;
+	const repo = await githubAPI(githubToken, path, 'GET', null, {
+		...options,
+		schema: repositorySchema
+	});
+	if (!repo) {
+		logger.debug(`Repository '${owner}/${name}' not found`);
+		return null;
+	}
+	const [readme, release, languages, commits] = await Promise.all([
+		githubAPI(githubToken, `${path}/readme`, 'GET', null, { ...options, schema: readmeSchema }),
+		githubAPI(githubToken, `${path}/releases/latest`, 'GET', null, {
+			...options,
+			schema: releaseSchema
+		}),
+		githubAPI(githubToken, `${path}/languages`, 'GET', null, {
+			...options,
+			schema: languagesSchema
+		}),
+		githubAPI(githubToken, `${path}/commits?per_page=${RECENT_COMMITS}`, 'GET', null, {
+			...options,
+			schema: z.array(commitSchema)
+		}).catch((error) => {
+			// empty repositories have no commits to list
+			if (error instanceof ApiError && error.status == 409) return [];
+			throw error;
+		})
+	]);
+	const languageBytes = Object.entries(languages || {});
+	const totalBytes = languageBytes.reduce((a, [, bytes]) => a + bytes, 0);
+	return {
+		...repoSummary(repo),
+		readme: readme
+			? {
+					path: readme.path,
+					url: readme.html_url,
+					markdown: readme.encoding == 'base64' ? decodeBase64(readme.content) : readme.content
+			  }
+			: null,
+		release: release
+			? {
+					name: release.name || release.tag_name,
+					tag: release.tag_name,
+					url: release.html_url,
+					publishedAt: release.published_at
+			  }
+			: null,
+		languages: languageBytes
+			.sort(([, x], [, y]) => y - x)
+			.map(([language, bytes]) => ({
+				name: language,
+				bytes,
+				share: totalBytes > 0 ? bytes / totalBytes : 0
+			})),
+		commits: (commits || []).map((x) => ({
+			sha: x.sha,
+			url: x.html_url,
+			message: x.commit.message.split('\n')[0],
+			author: x.commit.author?.name || null,
+			date: x.commit.author?.date || null
+		}))
+	};
+}
 
-export { createGithubDeployment, cleanGithubDeployments, listRepos };
+export type { RepoFilter, RepoSummary, RepoDetails, RepoStatus, BuildStatus };
+export {
+	GITHUB_OWNER,
+	createGithubDeployment,
+	deleteGithubDeployment,
+	listGithubDeployments,
+	listGithubEnvironments,
+	latestGithubDeploymentStatus,
+	listGithubBranches,
+	listGithubPullRequests,
+	findGithubPullRequest,
+	upsertGithubComment,
+	listRepos,
+	listPinnedRepos,
+	listRepoStatuses,
+	getRepoDetails
+};
@@ -0,0 +1,222 @@
+import { childLogger } from './logger.ts';
+import { apiSettings, collect, gitlabAPI, gitlabPaginate } from './api.ts';
+import type { ApiOptions } from './api.ts';
+import {
+	gitlabBranchSchema,
+	gitlabDeploymentSchema,
+	gitlabEnvironmentSchema,
+	gitlabMergeRequestSchema
+} from './models.ts';
+import type { GitlabDeployment, GitlabEnvironment } from './models.ts';
+
+const logger = childLogger('gitlab');
+
+const projectPath = (repository: string) => `projects/${encodeURIComponent(repository)}`;
+
+async function listGitlabEnvironments(
+	gitlabToken: string,
+	repository: string,
+	options: ApiOptions = {}
+): Promise<GitlabEnvironment[]> {
+	logger.debug(`Listing environments for repository '${repository}'`);
+	const environments = await collect(
+		gitlabPaginate(gitlabToken, `${projectPath(repository)}/environments`, {
+			...options,
+			schema: gitlabEnvironmentSchema
+		})
+	);
+	logger.debug(`Found ${environments.length} environments for repository '${repository}'`);
+	return environments;
+}
+
+async function findGitlabEnvironment(
+	gitlabToken: string,
+	repository: string,
+	environment: string,
+	options: ApiOptions = {}
+): Promise<GitlabEnvironment | null> {
+	const environments = await collect(
+		gitlabPaginate(
+			gitlabToken,
+			`${projectPath(repository)}/environments?name=${encodeURIComponent(environment)}`,
+			{ ...options, schema: gitlabEnvironmentSchema }
+		)
+	);
+	return environments.find((x) => x.name == environment) || null;
+}
+
+async function listGitlabDeployments(
+	gitlabToken: string,
+	repository: string,
+	environment: string,
+	options: ApiOptions = {}
+): Promise<GitlabDeployment[]> {
+	logger.debug(`Listing deployments for repository '${repository}', environment '${environment}'`);
+	const query = `environment=${encodeURIComponent(environment)}&order_by=created_at&sort=asc`;
+	const deployments = await collect(
+		gitlabPaginate(gitlabToken, `${projectPath(repository)}/deployments?${query}`, {
+			...options,
+			schema: gitlabDeploymentSchema
+		})
+	);
+	logger.debug(
+		`Found ${deployments.length} deployments for repository '${repository}', environment '${environment}'`
+	);
+	return deployments;
+}
+
+async function listGitlabBranches(
+	gitlabToken: string,
+	repository: string,
+	options: ApiOptions = {}
+): Promise<string[]> {
+	logger.debug(`Listing branches for repository '${repository}'`);
+	const branches = await collect(
+		gitlabPaginate(gitlabToken, `${projectPath(repository)}/repository/branches`, {
+			...options,
+			schema: gitlabBranchSchema
+		})
+	);
+	logger.debug(`Found ${branches.length} branches for repository '${repository}'`);
+	return branches.map((x) => x.name);
+}
+
+async function listGitlabMergeRequestBranches(
+	gitlabToken: string,
+	repository: string,
+	options: ApiOptions = {}
+): Promise<string[]> {
+	logger.debug(`Listing open merge requests for repository '${repository}'`);
+	const mergeRequests = await collect(
+		gitlabPaginate(gitlabToken, `${projectPath(repository)}/merge_requests?state=opened`, {
+			...options,
+			schema: gitlabMergeRequestSchema
+		})
+	);
+	logger.debug(`Found ${mergeRequests.length} open merge requests for repository '${repository}'`);
+	return mergeRequests.map((x) => x.source_branch);
+}
+
+async function gitlabBranchCommit(
+	gitlabToken: string,
+	repository: string,
+	branch: string,
+	options: ApiOptions = {}
+): Promise<string | null> {
+	const branchRecord = await gitlabAPI(
+		gitlabToken,
+		`${projectPath(repository)}/repository/branches/${encodeURIComponent(branch)}`,
+		'GET',
+		null,
+		{ ...options, schema: gitlabBranchSchema }
+	);
+	return branchRecord?.commit.id || null;
+}
+
+async function createGitlabDeployment(
+	gitlabToken: string,
+	repository: string,
+	environment: string,
+	url: string,
+	commit: string | null,
+	state: 'success' | 'failure' = 'success',
+	options: ApiOptions = {}
+) {
+	logger.debug(
+		`Creating Gitlab deployment for repository '${repository}', environment '${environment}'`
+	);
+	const existing = await findGitlabEnvironment(gitlabToken, repository, environment, options);
+	if (existing) {
+		await gitlabAPI(
+			gitlabToken,
+			`${projectPath(repository)}/environments/${existing.id}`,
+			'PUT',
+			{ external_url: url },
+			options
+		);
+	} else {
+		await gitlabAPI(
+			gitlabToken,
+			`${projectPath(repository)}/environments`,
+			'POST',
+			{ name: environment, external_url: url },
+			options
+		);
+	}
+	const sha = commit || (await gitlabBranchCommit(gitlabToken, repository, environment, options));
+	if (!sha) {
+		logger.debug(`Unable to resolve commit for environment '${environment}'`);
+		throw new Error(`Unable to resolve commit for environment '${environment}'`);
+	}
+	const deployment = await gitlabAPI(
+		gitlabToken,
+		`${projectPath(repository)}/deployments`,
+		'POST',
+		{
+			environment,
+			sha,
+			ref: environment,
+			tag: false,
+			status: state == 'failure' ? 'failed' : 'success'
+		},
+		{ ...options, schema: gitlabDeploymentSchema }
+	);
+	if (!deployment && apiSettings.dryRun) {
+		return;
+	} else if (!deployment) {
+		logger.debug(`Unable to create deployment for repository ${repository}`);
+		throw new Error(`Unable to create deployment for repository ${repository}`);
+	}
+	logger.debug(`Created deployment with id '${deployment.id}'`);
+}
+
+async function deleteGitlabDeployment(
+	gitlabToken: string,
+	repository: string,
+	deploymentId: number,
+	options: ApiOptions = {}
+): Promise<void> {
+	try {
+		await gitlabAPI(
+			gitlabToken,
+			`${projectPath(repository)}/deployments/${deploymentId}`,
+			'DELETE',
+			null,
+			options
+		);
+		logger.debug(`Deployment '${deploymentId}' removed`);
+	} catch (error) {
+		// gitlab refuses to remove the last deployment of an active environment
+		logger.debug(`Unable to remove deployment '${deploymentId}'`);
+	}
+}
+
+async function destroyGitlabEnvironment(
+	gitlabToken: string,
+	repository: string,
+	environment: string,
+	options: ApiOptions = {}
+): Promise<void> {
+	const existing = await findGitlabEnvironment(gitlabToken, repository, environment, options);
+	if (!existing) {
+		logger.debug(`Environment '${environment}' not found`);
+		return;
+	}
+	const environmentPath = `${projectPath(repository)}/environments/${existing.id}`;
+	if (existing.state != 'stopped') {
+		await gitlabAPI(gitlabToken, `${environmentPath}/stop`, 'POST', {}, options);
+	}
+	await gitlabAPI(gitlabToken, environmentPath, 'DELETE', null, options);
+	logger.debug(`Environment '${environment}' destroyed`);
+}
+
+export {
+	projectPath,
+	listGitlabEnvironments,
+	listGitlabDeployments,
+	listGitlabBranches,
+	listGitlabMergeRequestBranches,
+	createGitlabDeployment,
+	deleteGitlabDeployment,
+	destroyGitlabEnvironment
+};
@@ -1,4 +1,4 @@
-import type { ILogObj } from 'tslog';
+import type { ILogObj, ISettingsParam } from 'tslog';
 import { Logger } from 'tslog';
 
 const LOG_LEVELS = {
@@ -10,6 +10,63 @@ const LOG_LEVELS = {
 	error: 5,
 	fatal: 6
 };
-const logger: Logger<ILogObj> = new Logger({ name: 'worker', minLevel: LOG_LEVELS.info });
+const LOG_FORMATS = ['pretty', 'json'] as const;
+const REDACTED_KEYS = ['authorization', 'password', 'secret', 'token', 'jwt'];
+const REDACTED_MIN_LENGTH = 4;
 
-export { logger, LOG_LEVELS };
+type LogFormat = (typeof LOG_FORMATS)[number];
+
+type LogTransports = Pick<
+	NonNullable<ISettingsParam<ILogObj>['overwrite']>,
+	'transportFormatted' | 'transportJSON'
+>;
+
+type LoggerOptions = {
+	minLevel?: number;
+	format?: LogFormat;
+	transports?: LogTransports;
+};
+
+const redactedValues: RegExp[] = [];
+
+const logger: Logger<ILogObj> = new Logger({
+	name: 'worker',
+	minLevel: LOG_LEVELS.info,
+	maskValuesOfKeys: REDACTED_KEYS,
+	maskValuesOfKeysCaseInsensitive: true,
+	maskValuesRegEx: redactedValues,
+	maskPlaceholder: '[redacted]'
+});
+const loggers = [logger];
+
+function childLogger(name: string): Logger<ILogObj> {
+	const child = logger.getSubLogger({ name });
+	loggers.push(child);
+	return child;
+}
+
+function correlatedLogger(parent: Logger<ILogObj>, requestId: string): Logger<ILogObj> {
+	const prefix = parent.settings.type == 'json' ? [] : [`[${requestId}]`];
+	return new Logger({ ...parent.settings, prefix }, { requestId });
+}
+
+function configureLogger(options: LoggerOptions) {
+	for (const instance of loggers) {
+		if (options.minLevel !== undefined) instance.settings.minLevel = options.minLevel;
+		if (options.format !== undefined) instance.settings.type = options.format;
+		if (options.transports !== undefined) {
+			instance.settings.overwrite = { ...instance.settings.overwrite, ...options.transports };
+		}
+	}
+}
+
+function redact(value: string | null | undefined) {
+	if (!value || value.length < REDACTED_MIN_LENGTH) return;
+	const pattern = value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	if (!redactedValues.some((x) => x.source == pattern)) {
+		redactedValues.push(new RegExp(pattern, 'g'));
+	}
+}
+
+export type { LogFormat, LogTransports, LoggerOptions };
+export { logger, LOG_LEVELS, LOG_FORMATS, childLogger, correlatedLogger, configureLogger, redact };
@@ -0,0 +1,75 @@
+import { marked } from 'marked';
+import xss from 'xss';
+
+const MARKDOWN_TAGS: Record<string, string[]> = {
+	a: ['href', 'title'],
+	blockquote: [],
+	br: [],
+	code: ['class'],
+	del: [],
+	details: ['open'],
+	div: ['align'],
+	em: [],
+	h1: [],
+	h2: [],
+	h3: [],
+	h4: [],
+	h5: [],
+	h6: [],
+	hr: [],
+	img: ['src', 'alt', 'title', 'width', 'height', 'align'],
+	input: ['type', 'checked', 'disabled'],
+	kbd: [],
+	li: [],
+	ol: ['start'],
+	p: ['align'],
+	pre: [],
+	span: [],
+	strong: [],
+	sub: [],
+	summary: [],
+	sup: [],
+	table: [],
+	tbody: [],
+	td: ['align'],
+	th: ['align'],
+	thead: [],
+	tr: [],
+	ul: []
+};
+
+type MarkdownBase = {
+	links?: string;
+	images?: string;
+};
+
+const isRelative = (href: string) => !/^([a-z][a-z0-9+.-]*:|#|\/\/)/i.test(href);
+
+// root relative paths point at the repository root, not at the root of the host
+const rebase = (href: string, baseUrl: string) =>
+	new URL(href.startsWith('/') ? `.${href}` : href, baseUrl).toString();
+
+function renderMarkdown(markdown: string, base: MarkdownBase = {}): string {
+	const html = marked.parser(marked.lexer(markdown, { gfm: true }));
+	// rewriting at sanitization time covers markdown links as well as inline html tags
+	return xss(html, {
+		whiteList: MARKDOWN_TAGS,
+		stripIgnoreTag: true,
+		stripIgnoreTagBody: ['script', 'style'],
+		onTagAttr: (tag, name, value) => {
+			const baseUrl =
+				tag == 'img' && name == 'src'
+					? base.images
+					: tag == 'a' && name == 'href'
+					? base.links
+					: null;
+			if (baseUrl && isRelative(value)) {
+				// rebased urls share the scheme of the base and serialize with quotes percent encoded
+				return `${name}="${rebase(value, baseUrl)}"`;
+			}
+		}
+	});
+}
+
+export type { MarkdownBase };
+export { renderMarkdown };
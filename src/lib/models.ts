@@ -0,0 +1,316 @@
+import { z } from 'zod';
+
+const repositorySchema = z.object({
+	id: z.number(),
+	name: z.string(),
+	full_name: z.string(),
+	html_url: z.string(),
+	description: z.string().nullable(),
+	language: z.string().nullable(),
+	stargazers_count: z.number(),
+	topics: z.array(z.string()).default([]),
+	pushed_at: z.string().nullable(),
+	default_branch: z.string(),
+	fork: z.boolean(),
+	archived: z.boolean()
+});
+
+const readmeSchema = z.object({
+	path: z.string(),
+	content: z.string(),
+	encoding: z.string(),
+	html_url: z.string()
+});
+
+const releaseSchema = z.object({
+	tag_name: z.string(),
+	name: z.string().nullable(),
+	html_url: z.string(),
+	published_at: z.string().nullable()
+});
+
+const languagesSchema = z.record(z.number());
+
+const commitSchema = z.object({
+	sha: z.string(),
+	html_url: z.string(),
+	commit: z.object({
+		message: z.string(),
+		author: z
+			.object({
+				name: z.string(),
+				date: z.string()
+			})
+			.nullable()
+	})
+});
+
+const workflowRunSchema = z.object({
+	id: z.number(),
+	name: z.string().nullish(),
+	head_branch: z.string().nullable(),
+	status: z.string().nullable(),
+	conclusion: z.string().nullable(),
+	html_url: z.string(),
+	created_at: z.string()
+});
+
+const workflowRunListSchema = z.object({
+	total_count: z.number(),
+	workflow_runs: z.array(workflowRunSchema)
+});
+
+const searchCountSchema = z.object({
+	total_count: z.number()
+});
+
+const webhookPayloadSchema = z.object({
+	repository: z
+		.object({
+			name: z.string(),
+			full_name: z.string(),
+			owner: z.object({ login: z.string() })
+		})
+		.optional(),
+	changes: z
+		.object({
+			repository: z
+				.object({
+					name: z.object({ from: z.string() }).optional()
+				})
+				.optional()
+		})
+		.optional()
+});
+
+const pinnedItemsSchema = z.object({
+	data: z
+		.object({
+			repositoryOwner: z
+				.object({
+					pinnedItems: z.object({
+						nodes: z.array(
+							z.object({
+								name: z.string(),
+								owner: z.object({ login: z.string() })
+							})
+						)
+					})
+				})
+				.nullable()
+		})
+		.nullish(),
+	errors: z.array(z.object({ message: z.string() })).optional()
+});
+
+const deploymentSchema = z.object({
+	id: z.number(),
+	ref: z.string(),
+	sha: z.string(),
+	environment: z.string(),
+	created_at: z.string(),
+	updated_at: z.string()
+});
+
+const deploymentStatusSchema = z.object({
+	id: z.number(),
+	state: z.string(),
+	environment_url: z.string().nullish(),
+	created_at: z.string()
+});
+
+const environmentSchema = z.object({
+	id: z.number(),
+	name: z.string(),
+	created_at: z.string(),
+	updated_at: z.string()
+});
+
+const environmentListSchema = z.object({
+	total_count: z.number(),
+	environments: z.array(environmentSchema)
+});
+
+const branchSchema = z.object({
+	name: z.string()
+});
+
+const pullRequestSchema = z.object({
+	number: z.number(),
+	html_url: z.string(),
+	state: z.string(),
+	head: z.object({
+		ref: z.string()
+	})
+});
+
+const issueCommentSchema = z.object({
+	id: z.number(),
+	body: z.string().nullish(),
+	html_url: z.string()
+});
+
+const pagesEnvVarSchema = z.object({
+	type: z.string().optional(),
+	value: z.string().nullish()
+});
+
+const pagesDeploymentConfigSchema = z.object({
+	compatibility_date: z.string().nullish(),
+	compatibility_flags: z.array(z.string()).nullish(),
+	env_vars: z.record(pagesEnvVarSchema.nullable()).nullish()
+});
+
+const pagesDeploymentSchema = z.object({
+	id: z.string(),
+	url: z.string(),
+	environment: z.string(),
+	created_on: z.string(),
+	aliases: z.array(z.string()).nullish(),
+	latest_stage: z
+		.object({
+			name: z.string(),
+			status: z.string()
+		})
+		.nullish(),
+	deployment_trigger: z.object({
+		type: z.string(),
+		metadata: z
+			.object({
+				branch: z.string().nullish(),
+				commit_hash: z.string().nullish(),
+				commit_message: z.string().nullish()
+			})
+			.nullish()
+	})
+});
+
+const pagesProjectSchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	subdomain: z.string().nullish(),
+	production_branch: z.string().nullish(),
+	deployment_configs: z.object({
+		production: pagesDeploymentConfigSchema,
+		preview: pagesDeploymentConfigSchema
+	}),
+	canonical_deployment: pagesDeploymentSchema.nullish()
+});
+
+const pagesUploadTokenSchema = z.object({
+	jwt: z.string()
+});
+
+const gitlabEnvironmentSchema = z.object({
+	id: z.number(),
+	name: z.string(),
+	state: z.string(),
+	external_url: z.string().nullish()
+});
+
+const gitlabDeploymentSchema = z.object({
+	id: z.number(),
+	ref: z.string(),
+	sha: z.string(),
+	status: z.string(),
+	created_at: z.string(),
+	updated_at: z.string(),
+	environment: z
+		.object({
+			name: z.string(),
+			external_url: z.string().nullish()
+		})
+		.nullish()
+});
+
+const gitlabBranchSchema = z.object({
+	name: z.string(),
+	commit: z.object({
+		id: z.string()
+	})
+});
+
+const gitlabMergeRequestSchema = z.object({
+	iid: z.number(),
+	state: z.string(),
+	source_branch: z.string()
+});
+
+const cloudflareResultSchema = <T extends z.ZodTypeAny>(result: T) =>
+	z.object({
+		success: z.boolean(),
+		result: result,
+		result_info: z
+			.object({
+				page: z.number(),
+				per_page: z.number(),
+				count: z.number(),
+				total_count: z.number(),
+				total_pages: z.number().optional()
+			})
+			.nullish()
+	});
+
+type Repository = z.infer<typeof repositorySchema>;
+type Readme = z.infer<typeof readmeSchema>;
+type Release = z.infer<typeof releaseSchema>;
+type Commit = z.infer<typeof commitSchema>;
+type WorkflowRun = z.infer<typeof workflowRunSchema>;
+type WebhookPayload = z.infer<typeof webhookPayloadSchema>;
+type Deployment = z.infer<typeof deploymentSchema>;
+type DeploymentStatus = z.infer<typeof deploymentStatusSchema>;
+type Environment = z.infer<typeof environmentSchema>;
+type PullRequest = z.infer<typeof pullRequestSchema>;
+type IssueComment = z.infer<typeof issueCommentSchema>;
+type PagesEnvVar = z.infer<typeof pagesEnvVarSchema>;
+type PagesProject = z.infer<typeof pagesProjectSchema>;
+type PagesDeployment = z.infer<typeof pagesDeploymentSchema>;
+type GitlabEnvironment = z.infer<typeof gitlabEnvironmentSchema>;
+type GitlabDeployment = z.infer<typeof gitlabDeploymentSchema>;
+
+export type {
+	Repository,
+	Readme,
+	Release,
+	Commit,
+	WorkflowRun,
+	WebhookPayload,
+	Deployment,
+	DeploymentStatus,
+	Environment,
+	PullRequest,
+	IssueComment,
+	PagesEnvVar,
+	PagesProject,
+	PagesDeployment,
+	GitlabEnvironment,
+	GitlabDeployment
+};
+export {
+	repositorySchema,
+	readmeSchema,
+	releaseSchema,
+	languagesSchema,
+	commitSchema,
+	workflowRunSchema,
+	workflowRunListSchema,
+	searchCountSchema,
+	webhookPayloadSchema,
+	pinnedItemsSchema,
+	deploymentSchema,
+	deploymentStatusSchema,
+	environmentSchema,
+	environmentListSchema,
+	branchSchema,
+	pullRequestSchema,
+	issueCommentSchema,
+	pagesEnvVarSchema,
+	pagesProjectSchema,
+	pagesDeploymentSchema,
+	pagesUploadTokenSchema,
+	gitlabEnvironmentSchema,
+	gitlabDeploymentSchema,
+	gitlabBranchSchema,
+	gitlabMergeRequestSchema,
+	cloudflareResultSchema
+};
@@ -0,0 +1,207 @@
+import { childLogger } from './logger.ts';
+import { apiSettings, githubAPI, gitlabAPI, mapConcurrent } from './api.ts';
+import type { ApiOptions } from './api.ts';
+import {
+	createGithubDeployment,
+	deleteGithubDeployment,
+	latestGithubDeploymentStatus,
+	listGithubBranches,
+	listGithubDeployments,
+	listGithubEnvironments,
+	listGithubPullRequests
+} from './github.ts';
+import {
+	createGitlabDeployment,
+	deleteGitlabDeployment,
+	destroyGitlabEnvironment,
+	listGitlabBranches,
+	listGitlabDeployments,
+	listGitlabEnvironments,
+	listGitlabMergeRequestBranches,
+	projectPath
+} from './gitlab.ts';
+import { repositorySchema } from './models.ts';
+
+const logger = childLogger('tracker');
+
+const TRACKERS = ['github', 'gitlab', 'none'] as const;
+
+type TrackerKind = (typeof TRACKERS)[number];
+
+type DeploymentState = 'success' | 'failure';
+
+type TrackedDeployment = {
+	id: string;
+	commit: string | null;
+	state: string | null;
+	url: string | null;
+	updated: string;
+};
+
+type DeploymentTracker = {
+	kind: TrackerKind;
+	repository: string;
+	findRepository(): Promise<boolean>;
+	findBranch(branch: string): Promise<boolean>;
+	createDeployment(
+		environment: string,
+		url: string,
+		commit: string | null,
+		description?: string | null,
+		state?: DeploymentState
+	): Promise<void>;
+	deleteDeployment(id: string): Promise<void>;
+	destroyEnvironment(environment: string): Promise<void>;
+	listDeployments(environment: string): Promise<TrackedDeployment[]>;
+	listEnvironments(): Promise<string[]>;
+	listBranches(): Promise<string[]>;
+	listReviewBranches(): Promise<string[]>;
+};
+
+type GitRemote = {
+	host: string;
+	repository: string;
+};
+
+function githubTracker(githubToken: string, repository: string): DeploymentTracker {
+	return {
+		kind: 'github',
+		repository,
+		findRepository: async () => {
+			const repo = await githubAPI(githubToken, `repos/${repository}`, 'GET', null, {
+				schema: repositorySchema
+			});
+			return repo != null;
+		},
+		findBranch: async (branch: string) => {
+			const record = await githubAPI(githubToken, `repos/${repository}/branches/${branch}`);
+			return record != null;
+		},
+		createDeployment: (environment, url, _, description = null, state = 'success') =>
+			createGithubDeployment(githubToken, repository, environment, url, description, state),
+		deleteDeployment: (id) => deleteGithubDeployment(githubToken, repository, Number(id)),
+		destroyEnvironment: async (environment) => {
+			await githubAPI(githubToken, `repos/${repository}/environments/${environment}`, 'DELETE');
+		},
+		listDeployments: async (environment) => {
+			const deployments = await listGithubDeployments(githubToken, repository, environment);
+			return mapConcurrent(deployments, apiSettings.concurrency, async (deployment) => {
+				const status = await latestGithubDeploymentStatus(githubToken, repository, deployment.id);
+				return {
+					id: `${deployment.id}`,
+					commit: deployment.sha,
+					state: status?.state || null,
+					url: status?.environment_url || null,
+					updated: deployment.updated_at
+				};
+			});
+		},
+		listEnvironments: async () => {
+			const environments = await listGithubEnvironments(githubToken, repository);
+			return environments.map((x) => x.name);
+		},
+		listBranches: () => listGithubBranches(githubToken, repository),
+		listReviewBranches: async () => {
+			const pulls = await listGithubPullRequests(githubToken, repository, 'open');
+			return pulls.map((x) => x.head.ref);
+		}
+	};
+}
+
+function gitlabTracker(
+	gitlabToken: string,
+	repository: string,
+	options: ApiOptions = {}
+): DeploymentTracker {
+	return {
+		kind: 'gitlab',
+		repository,
+		findRepository: async () => {
+			const project = await gitlabAPI(gitlabToken, projectPath(repository), 'GET', null, options);
+			return project != null;
+		},
+		findBranch: async (branch: string) => {
+			const record = await gitlabAPI(
+				gitlabToken,
+				`${projectPath(repository)}/repository/branches/${encodeURIComponent(branch)}`,
+				'GET',
+				null,
+				options
+			);
+			return record != null;
+		},
+		createDeployment: (environment, url, commit, _, state = 'success') =>
+			createGitlabDeployment(gitlabToken, repository, environment, url, commit, state, options),
+		deleteDeployment: (id) => deleteGitlabDeployment(gitlabToken, repository, Number(id), options),
+		destroyEnvironment: (environment) =>
+			destroyGitlabEnvironment(gitlabToken, repository, environment, options),
+		listDeployments: async (environment) => {
+			const deployments = await listGitlabDeployments(
+				gitlabToken,
+				repository,
+				environment,
+				options
+			);
+			return deployments.map((deployment) => ({
+				id: `${deployment.id}`,
+				commit: deployment.sha,
+				state: deployment.status,
+				url: deployment.environment?.external_url || null,
+				updated: deployment.updated_at
+			}));
+		},
+		listEnvironments: async () => {
+			const environments = await listGitlabEnvironments(gitlabToken, repository, options);
+			return environments.map((x) => x.name);
+		},
+		listBranches: () => listGitlabBranches(gitlabToken, repository, options),
+		listReviewBranches: () => listGitlabMergeRequestBranches(gitlabToken, repository, options)
+	};
+}
+
+function noopTracker(repository: string): DeploymentTracker {
+	return {
+		kind: 'none',
+		repository,
+		findRepository: async () => true,
+		findBranch: async () => true,
+		createDeployment: async (environment) => {
+			logger.debug(`Deployment tracking disabled, skipping environment '${environment}'`);
+		},
+		deleteDeployment: async () => undefined,
+		destroyEnvironment: async () => undefined,
+		listDeployments: async () => [],
+		listEnvironments: async () => [],
+		listBranches: async () => [],
+		listReviewBranches: async () => []
+	};
+}
+
+function parseRemote(remote: string): GitRemote {
+	const scpRemote = remote.match(/^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/);
+	let host: string, path: string;
+	if (/^[a-z][a-z0-9+.-]*:\/\//i.test(remote)) {
+		const url = new URL(remote);
+		host = url.hostname;
+		path = url.pathname;
+	} else if (scpRemote) {
+		host = scpRemote[1];
+		path = scpRemote[2];
+	} else {
+		throw new Error(`Unable to parse git remote '${remote}'`);
+	}
+	const repository = path.replace(/^\/+|\/+$/g, '').replace(/\.git$/, '');
+	if (!repository.includes('/')) {
+		throw new Error(`Unable to parse repository from git remote '${remote}'`);
+	}
+	return { host, repository };
+}
+
+function detectTracker(host: string): TrackerKind {
+	if (host == 'github.com' || host.startsWith('github.')) return 'github';
+	if (host == 'gitlab.com' || host.startsWith('gitlab.')) return 'gitlab';
+	return 'none';
+}
+
+export type { DeploymentState, DeploymentTracker, GitRemote, TrackedDeployment, TrackerKind };
+export { TRACKERS, githubTracker, gitlabTracker, noopTracker, parseRemote, detectTracker };
@@ -0,0 +1,92 @@
+import { childLogger } from './logger.ts';
+import type { CacheOptions } from './cache.ts';
+import type { WebhookPayload } from './models.ts';
+
+const logger = childLogger('webhook');
+
+const WEBHOOK_EVENTS = ['ping', 'push', 'release', 'repository', 'workflow_run'] as const;
+const SIGNATURE_PREFIX = 'sha256=';
+const DELIVERY_PREFIX = 'webhook:';
+
+type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+const isWebhookEvent = (event: string | null): event is WebhookEvent =>
+	WEBHOOK_EVENTS.some((x) => x == event);
+
+async function verifySignature(
+	secret: string,
+	body: ArrayBuffer,
+	signature: string | null
+): Promise<boolean> {
+	if (!signature?.startsWith(SIGNATURE_PREFIX)) {
+		return false;
+	}
+	const hex = signature.slice(SIGNATURE_PREFIX.length);
+	if (!/^[0-9a-f]{64}$/i.test(hex)) {
+		return false;
+	}
+	const digest = Uint8Array.from(hex.match(/../g) || [], (x) => parseInt(x, 16));
+	const key = await crypto.subtle.importKey(
+		'raw',
+		new TextEncoder().encode(secret),
+		{ name: 'HMAC', hash: 'SHA-256' },
+		false,
+		['verify']
+	);
+	// subtle verification compares digests in constant time
+	return crypto.subtle.verify('HMAC', key, digest, body);
+}
+
+async function recordDelivery(
+	cache: CacheOptions,
+	event: string,
+	signature: string,
+	delivery: string
+): Promise<boolean> {
+	// delivery ids are not signed, so replays are detected by the payload signature instead
+	const key = `${DELIVERY_PREFIX}${event}:${signature}`;
+	const previous = await cache.store.get(key);
+	if (previous) {
+		logger.warn(
+			`Rejecting webhook delivery '${delivery}', payload was already delivered as '${previous.headers['x-github-delivery']}'`
+		);
+		return false;
+	}
+	await cache.store.put(key, {
+		status: 200,
+		headers: { 'x-github-delivery': delivery },
+		body: null,
+		storedAt: Date.now()
+	});
+	return true;
+}
+
+function invalidatedPrefixes(
+	event: WebhookEvent,
+	payload: WebhookPayload,
+	apiUrl: string
+): string[] {
+	const repository = payload.repository;
+	if (!repository) {
+		return [];
+	}
+	const owner = repository.owner.login;
+	const renamed = payload.changes?.repository?.name?.from;
+	const repos = [repository.name, ...(renamed ? [renamed] : [])].map(
+		(x) => `${apiUrl}/repos/${owner}/${x}`
+	);
+	switch (event) {
+		case 'push':
+		case 'repository':
+			return [...repos, `${apiUrl}/users/${owner}/repos`];
+		case 'release':
+			return repos.map((x) => `${x}/releases`);
+		case 'workflow_run':
+			return repos.map((x) => `${x}/actions`);
+		default:
+			return [];
+	}
+}
+
+export type { WebhookEvent };
+export { WEBHOOK_EVENTS, isWebhookEvent, verifySignature, recordDelivery, invalidatedPrefixes };
@@ -0,0 +1,16 @@
+import { env } from '$env/dynamic/private';
+import { GITHUB_OWNER, listRepoStatuses, listRepos } from '$lib/github.ts';
+import { platformCache } from '$lib/cache.ts';
+import { loadCuration, sectionRepos } from '$lib/curation.ts';
+import type { PageServerLoad } from './$types';
+
+export const load = (async ({ platform }) => {
+	const githubToken = platform?.env.GITHUB_TOKEN || env.GITHUB_TOKEN || '';
+	const owner = env.GITHUB_OWNER || GITHUB_OWNER;
+	const cache = platformCache(platform);
+	const curation = loadCuration();
+	const options = { url: env.GITHUB_API_URL, cache };
+	const curated = await listRepos(githubToken, owner, { curation }, options);
+	const repos = await listRepoStatuses(githubToken, owner, curated, options);
+	return { owner, sections: sectionRepos(repos, curation) };
+}) satisfies PageServerLoad;
@@ -0,0 +1,49 @@
+import { error } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import { GITHUB_OWNER, getRepoDetails, listRepos } from '$lib/github.ts';
+import { childLogger } from '$lib/logger.ts';
+import { platformCache } from '$lib/cache.ts';
+import { renderMarkdown } from '$lib/markdown.ts';
+import { curateRepo, isHidden, loadCuration } from '$lib/curation.ts';
+import type { EntryGenerator, PageServerLoad } from './$types';
+
+const logger = childLogger('routes');
+
+// prerendered pages are static html, webhook invalidation and the api cache never refresh
+// them, so their release, build and issue stats only update when the site is deployed again
+export const prerender = 'auto';
+
+export const entries = (async () => {
+	const githubToken = env.GITHUB_TOKEN || '';
+	const owner = env.GITHUB_OWNER || GITHUB_OWNER;
+	const curation = loadCuration();
+	try {
+		const repos = await listRepos(githubToken, owner, { curation }, { url: env.GITHUB_API_URL });
+		return repos.map((x) => ({ repo: x.name }));
+	} catch (e) {
+		logger.warn(`Unable to list repositories for prerendering: ${e}`);
+		return [];
+	}
+}) satisfies EntryGenerator;
+
+export const load = (async ({ params, platform }) => {
+	const githubToken = platform?.env.GITHUB_TOKEN || env.GITHUB_TOKEN || '';
+	const owner = env.GITHUB_OWNER || GITHUB_OWNER;
+	const cache = platformCache(platform);
+	const curation = loadCuration();
+	const repo = await getRepoDetails(githubToken, owner, params.repo, {
+		url: env.GITHUB_API_URL,
+		cache
+	});
+	if (!repo || isHidden(repo, curation)) {
+		throw error(404, `Repository '${params.repo}' not found`);
+	}
+	const { readme: source, ...details } = curateRepo(repo, curation);
+	const readme = source
+		? renderMarkdown(source.markdown, {
+				links: `${repo.url}/blob/${repo.branch}/`,
+				images: `${repo.url}/raw/${repo.branch}/`
+		  })
+		: null;
+	return { owner, repo: details, readme };
+}) satisfies PageServerLoad;
@@ -0,0 +1,16 @@
+import { json } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import { GITHUB_OWNER, listRepoStatuses, listRepos } from '$lib/github.ts';
+import { platformCache } from '$lib/cache.ts';
+import { loadCuration } from '$lib/curation.ts';
+import type { RequestHandler } from './$types';
+
+export const GET = (async ({ platform }) => {
+	const githubToken = platform?.env.GITHUB_TOKEN || env.GITHUB_TOKEN || '';
+	const owner = env.GITHUB_OWNER || GITHUB_OWNER;
+	const cache = platformCache(platform);
+	const options = { url: env.GITHUB_API_URL, cache };
+	const curated = await listRepos(githubToken, owner, { curation: loadCuration() }, options);
+	const repos = await listRepoStatuses(githubToken, owner, curated, options);
+	return json({ owner, repos });
+}) satisfies RequestHandler;
@@ -0,0 +1,57 @@
+import { error, json } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import { GITHUB_API_URL } from '$lib/api.ts';
+import { invalidateCache, platformCache } from '$lib/cache.ts';
+import { childLogger } from '$lib/logger.ts';
+import { webhookPayloadSchema } from '$lib/models.ts';
+import {
+	invalidatedPrefixes,
+	isWebhookEvent,
+	recordDelivery,
+	verifySignature
+} from '$lib/webhook.ts';
+import type { RequestHandler } from './$types';
+
+const logger = childLogger('routes');
+
+export const POST = (async ({ request, platform }) => {
+	const secret = platform?.env.GITHUB_WEBHOOK_SECRET || env.GITHUB_WEBHOOK_SECRET;
+	if (!secret) {
+		throw error(503, 'Webhook secret is not configured');
+	}
+	if (!request.headers.get('content-type')?.startsWith('application/json')) {
+		throw error(415, 'Webhook payloads must be delivered as application/json');
+	}
+	const body = await request.arrayBuffer();
+	const signature = request.headers.get('x-hub-signature-256');
+	if (!signature || !(await verifySignature(secret, body, signature))) {
+		throw error(401, 'Invalid webhook signature');
+	}
+	const event = request.headers.get('x-github-event') || 'unknown';
+	const delivery = request.headers.get('x-github-delivery') || 'unknown';
+	let data: unknown;
+	try {
+		data = JSON.parse(new TextDecoder().decode(body));
+	} catch (e) {
+		logger.debug(`Unable to parse webhook delivery '${delivery}': ${e}`);
+		throw error(400, 'Invalid webhook payload');
+	}
+	const payload = webhookPayloadSchema.safeParse(data);
+	if (!payload.success) {
+		throw error(400, 'Invalid webhook payload');
+	}
+	const cache = platformCache(platform);
+	if (!(await recordDelivery(cache, event, signature, delivery))) {
+		throw error(409, 'Webhook payload was already delivered');
+	}
+	if (!isWebhookEvent(event)) {
+		logger.info(`Ignoring webhook delivery '${delivery}' for event '${event}'`);
+		return json({ event, delivery, invalidated: 0 }, { status: 202 });
+	}
+	const prefixes = invalidatedPrefixes(event, payload.data, env.GITHUB_API_URL || GITHUB_API_URL);
+	const keys = await invalidateCache(cache, prefixes);
+	logger.info(
+		`Invalidated ${keys.length} cache entries for webhook delivery '${delivery}' (${event})`
+	);
+	return json({ event, delivery, invalidated: keys.length });
+}) satisfies RequestHandler;
@@ -0,0 +1,514 @@
+import { execFileSync, spawn } from 'child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { expect, test } from '@playwright/test';
+import { PREVIEW_MARKER } from '../bin/comment.ts';
+import { createFakeServer } from './fake.ts';
+import type { FakeServer } from './fake.ts';
+
+const ROOT = fileURLToPath(new URL('..', import.meta.url));
+const REPOSITORY = 'nephelaiio/frontpage-fixture';
+const PROJECT = 'frontpage-fixture';
+
+type CliResult = {
+	status: number | null;
+	output: string;
+	stdout: string;
+};
+
+let fake: FakeServer;
+let checkout: string;
+
+function gitCheckout(branch: string, files: Record<string, string> = {}): string {
+	const dir = mkdtempSync(join(tmpdir(), 'frontpage-'));
+	const git = (...args: string[]) => execFileSync('git', args, { cwd: dir, stdio: 'pipe' });
+	git('init', '--quiet', '--initial-branch', 'master');
+	git('config', 'user.name', 'frontpage');
+	git('config', 'user.email', 'frontpage@localhost');
+	git('remote', 'add', 'origin', `https://github.com/${REPOSITORY}.git`);
+	const scripts = { build: 'node -e ""' };
+	writeFileSync(join(dir, 'package.json'), JSON.stringify({ name: PROJECT, scripts }));
+	mkdirSync(join(dir, 'build'));
+	writeFileSync(join(dir, 'build', 'index.html'), '<h1>frontpage</h1>');
+	Object.entries(files).forEach(([path, content]) => writeFileSync(join(dir, path), content));
+	git('add', '.');
+	git('commit', '--quiet', '--message', 'Add frontpage');
+	if (branch != 'master') {
+		git('checkout', '--quiet', '-b', branch);
+	}
+	return dir;
+}
+
+const targetsConfig = (...targets: { name: string; build?: string }[]) =>
+	targets
+		.map(({ name, build }) =>
+			['[[targets]]', `name = "${name}"`, 'directory = "build"']
+				.concat(build ? [`build = '${build}'`] : [])
+				.join('\n')
+		)
+		.join('\n\n');
+
+const listings = (project: string) =>
+	fake.state.requests.filter(
+		(x) => x.method == 'GET' && x.path.endsWith(`/pages/projects/${project}/deployments`)
+	);
+
+const headCommit = (dir: string) =>
+	execFileSync('git', ['rev-parse', 'HEAD'], { cwd: dir }).toString().trim();
+
+const cli = (...args: string[]) => cliWith({}, ...args);
+
+function cliWith(env: Record<string, string>, ...args: string[]): Promise<CliResult> {
+	const loader = pathToFileURL(join(ROOT, 'node_modules/ts-node/esm.mjs')).href;
+	const child = spawn(
+		process.execPath,
+		['--no-warnings', '--loader', loader, join(ROOT, 'bin/project.ts'), ...args],
+		{
+			cwd: checkout,
+			env: {
+				PATH: process.env.PATH,
+				HOME: process.env.HOME,
+				TS_NODE_PROJECT: join(ROOT, 'tsconfig.json'),
+				TS_NODE_TRANSPILE_ONLY: 'true',
+				GITHUB_TOKEN: 'github-token',
+				GITHUB_API_URL: fake.githubUrl,
+				CLOUDFLARE_API_TOKEN: 'cloudflare-token',
+				CLOUDFLARE_ACCOUNT_ID: 'cloudflare-account',
+				CLOUDFLARE_API_URL: fake.cloudflareUrl,
+				...env
+			}
+		}
+	);
+	let output = '';
+	let stdout = '';
+	child.stdout.on('data', (data) => {
+		output += data;
+		stdout += data;
+	});
+	child.stderr.on('data', (data) => (output += data));
+	return new Promise((resolve) =>
+		child.on('close', (status) => resolve({ status, output, stdout }))
+	);
+}
+
+test.describe.configure({ timeout: 120000 });
+
+test.beforeEach(async () => {
+	fake = await createFakeServer(0, {
+		repositories: { [REPOSITORY]: { branches: ['master', 'feature'] } },
+		projects: { [PROJECT]: { production_branch: 'master' } }
+	});
+});
+
+test.afterEach(async () => {
+	await fake.close();
+	if (checkout) rmSync(checkout, { recursive: true, force: true });
+});
+
+test('deploy publishes a preview and tracks it as a github deployment', async () => {
+	checkout = gitCheckout('feature');
+	const result = await cli('deploy', '--directory', 'build');
+	expect(result.status, result.output).toBe(0);
+	const [deployment] = fake.state.projects[PROJECT].deployments;
+	expect(deployment.deployment_trigger.metadata).toMatchObject({
+		branch: 'feature',
+		commit_hash: headCommit(checkout),
+		commit_message: 'Add frontpage'
+	});
+	expect(fake.state.projects[PROJECT].deployment_configs.preview).toMatchObject({
+		compatibility_date: '2022-01-01',
+		compatibility_flags: ['url_standard']
+	});
+	const repository = fake.state.repositories[REPOSITORY];
+	expect(repository.environments).toContain('feature');
+	const [tracked] = repository.deployments.filter((x) => x.environment == 'feature');
+	expect(repository.statuses[tracked.id][0]).toMatchObject({
+		state: 'success',
+		environment_url: deployment.url
+	});
+});
+
+test('deploy retries transient api failures', async () => {
+	checkout = gitCheckout('feature');
+	fake.fail('/upload-token', 503);
+	const result = await cli('deploy', '--directory', 'build', '--skip-checks');
+	expect(result.status, result.output).toBe(0);
+	const requests = fake.state.requests.filter((x) => x.path.endsWith('/upload-token'));
+	expect(requests).toHaveLength(2);
+	expect(fake.state.projects[PROJECT].deployments).toHaveLength(1);
+});
+
+test('deploy rolls back production when smoke checks fail', async () => {
+	checkout = gitCheckout('master');
+	const previous = fake.addPagesDeployment(PROJECT, 'master', 'b'.repeat(40), new Date(0));
+	fake.state.site.status = 500;
+	const result = await cli('deploy', '--directory', 'build', '--verify-timeout', '1');
+	expect(result.status, result.output).toBe(1);
+	expect(fake.state.projects[PROJECT].rollbacks).toEqual([previous]);
+	const repository = fake.state.repositories[REPOSITORY];
+	const [tracked] = repository.deployments.filter((x) => x.environment == 'master');
+	const states = repository.statuses[tracked.id].map((x) => x.state);
+	expect(states).toEqual(['success', 'failure']);
+});
+
+test('deploy restores the live deployment when checks fail after a rollback', async () => {
+	checkout = gitCheckout('master');
+	const live = fake.addPagesDeployment(PROJECT, 'master', 'a'.repeat(40), new Date(0));
+	fake.addPagesDeployment(PROJECT, 'master', 'b'.repeat(40), new Date(1000));
+	const rollback = await cli('rollback');
+	expect(rollback.status, rollback.output).toBe(0);
+	fake.state.site.status = 500;
+	const result = await cli('deploy', '--directory', 'build', '--verify-timeout', '1');
+	expect(result.status, result.output).toBe(1);
+	expect(fake.state.projects[PROJECT].rollbacks).toEqual([live, live]);
+	expect(fake.state.projects[PROJECT].canonical).toBe(live);
+});
+
+test('clean destroys preview deployments and environment', async () => {
+	checkout = gitCheckout('feature');
+	fake.addPagesDeployment(PROJECT, 'master', 'b'.repeat(40));
+	const url = fake.state.projects[PROJECT].deployments[0].url;
+	fake.addGithubDeployment(REPOSITORY, 'master', url);
+	for (const created of [new Date(0), new Date()]) {
+		const id = fake.addPagesDeployment(PROJECT, 'feature', 'c'.repeat(40), created);
+		const deployment = fake.state.projects[PROJECT].deployments.find((x) => x.id == id);
+		fake.addGithubDeployment(REPOSITORY, 'feature', `${deployment?.url}`);
+	}
+	const result = await cli('clean');
+	expect(result.status, result.output).toBe(0);
+	const branches = fake.state.projects[PROJECT].deployments.map(
+		(x) => x.deployment_trigger.metadata.branch
+	);
+	expect(branches).toEqual(['master']);
+	const repository = fake.state.repositories[REPOSITORY];
+	expect(repository.deployments.map((x) => x.environment)).toEqual(['master']);
+	expect(repository.environments).toEqual(['master']);
+});
+
+test('deploy creates a missing pages project', async () => {
+	checkout = gitCheckout('feature');
+	delete fake.state.projects[PROJECT];
+	const result = await cli('deploy', '--directory', 'build', '--skip-checks');
+	expect(result.status, result.output).toBe(0);
+	expect(fake.state.projects[PROJECT].production_branch).toBe('master');
+	expect(fake.state.projects[PROJECT].deployments).toHaveLength(1);
+});
+
+test('deploy publishes every configured target', async () => {
+	const config = targetsConfig({ name: 'docs', build: 'node -e ""' }, { name: PROJECT });
+	checkout = gitCheckout('feature', { 'frontpage.toml': config });
+	const result = await cli('deploy', '--skip-checks');
+	expect(result.status, result.output).toBe(0);
+	expect(listings('docs')).toHaveLength(1);
+	expect(fake.state.projects['docs'].deployments).toHaveLength(1);
+	expect(fake.state.projects[PROJECT].deployments).toHaveLength(1);
+	const repository = fake.state.repositories[REPOSITORY];
+	const tracked = repository.deployments.filter((x) => x.environment == 'feature');
+	expect(tracked).toHaveLength(1);
+	expect(repository.statuses[tracked[0].id][0]).toMatchObject({
+		state: 'success',
+		environment_url: fake.state.projects['docs'].deployments[0].url
+	});
+});
+
+test('deploy continues past failed targets unless failing fast', async () => {
+	const failing = { name: 'docs', build: 'node -e "process.exit(1)"' };
+	checkout = gitCheckout('feature', {
+		'frontpage.toml': targetsConfig(failing, { name: PROJECT })
+	});
+	const result = await cli('deploy', '--skip-checks');
+	expect(result.status, result.output).toBe(1);
+	expect(result.output).toContain('1 of 2 targets failed');
+	expect(fake.state.projects[PROJECT].deployments).toHaveLength(1);
+	const failFast = await cli('deploy', '--skip-checks', '--fail-fast', '--concurrency', '1');
+	expect(failFast.status, failFast.output).toBe(1);
+	expect(fake.state.projects[PROJECT].deployments).toHaveLength(1);
+	const repository = fake.state.repositories[REPOSITORY];
+	const [tracked] = repository.deployments.filter((x) => x.environment == 'feature');
+	expect(repository.statuses[tracked.id][0]).toMatchObject({ state: 'failure' });
+});
+
+test('clean destroys preview deployments of every configured target', async () => {
+	checkout = gitCheckout('feature', {
+		'frontpage.toml': targetsConfig({ name: 'docs' }, { name: PROJECT })
+	});
+	fake.state.projects['docs'] = { ...fake.state.projects[PROJECT], deployments: [] };
+	for (const name of ['docs', PROJECT]) {
+		const id = fake.addPagesDeployment(name, 'feature', 'c'.repeat(40));
+		const deployment = fake.state.projects[name].deployments.find((x) => x.id == id);
+		fake.addGithubDeployment(REPOSITORY, 'feature', `${deployment?.url}`);
+	}
+	const result = await cli('clean', '--target', 'docs', '--target', PROJECT);
+	expect(result.status, result.output).toBe(0);
+	expect(listings('docs')).toHaveLength(1);
+	expect(fake.state.projects['docs'].deployments).toEqual([]);
+	expect(fake.state.projects[PROJECT].deployments).toEqual([]);
+	const repository = fake.state.repositories[REPOSITORY];
+	expect(repository.deployments).toEqual([]);
+	expect(repository.environments).toEqual([]);
+});
+
+test('env set stores plain variables and secrets', async () => {
+	checkout = gitCheckout('feature');
+	const plain = await cli('env', 'set', 'API_URL=https://api.example.com');
+	expect(plain.status, plain.output).toBe(0);
+	const secret = await cli('env', 'set', '--secret', 'API_KEY=hunter2');
+	expect(secret.status, secret.output).toBe(0);
+	expect(secret.output).not.toContain('hunter2');
+	expect(fake.state.projects[PROJECT].deployment_configs.preview.env_vars).toEqual({
+		API_URL: { type: 'plain_text', value: 'https://api.example.com' },
+		API_KEY: { type: 'secret_text', value: 'hunter2' }
+	});
+});
+
+test('env sync declares variables and prunes the rest', async () => {
+	checkout = gitCheckout('feature', { '.env.preview': 'API_URL=https://api.example.com\n' });
+	fake.state.projects[PROJECT].deployment_configs.preview.env_vars = {
+		STALE: { type: 'plain_text', value: 'stale' }
+	};
+	const result = await cli(
+		'env',
+		'sync',
+		'--variable',
+		'API_URL',
+		'--env-file',
+		'.env.preview',
+		'--prune'
+	);
+	expect(result.status, result.output).toBe(0);
+	expect(fake.state.projects[PROJECT].deployment_configs.preview.env_vars).toEqual({
+		API_URL: { type: 'plain_text', value: 'https://api.example.com' }
+	});
+});
+
+test('json output is not mixed with logs', async () => {
+	checkout = gitCheckout('feature');
+	const id = fake.addPagesDeployment(PROJECT, 'feature', headCommit(checkout));
+	const url = fake.state.projects[PROJECT].deployments[0].url;
+	fake.addGithubDeployment(REPOSITORY, 'feature', url, headCommit(checkout));
+	fake.state.projects[PROJECT].deployment_configs.preview.env_vars = {
+		API_URL: { type: 'plain_text', value: 'https://api.example.com' }
+	};
+	const status = await cli('status', '--json');
+	expect(status.status, status.output).toBe(0);
+	expect(JSON.parse(status.stdout)).toMatchObject({
+		environment: 'feature',
+		deployments: [{ id, url, tracker: { state: 'success' } }]
+	});
+	const list = await cli('list', '--json');
+	expect(list.status, list.output).toBe(0);
+	expect(JSON.parse(list.stdout)).toMatchObject({
+		environments: [{ name: 'feature', type: 'preview', tracked: true, deployments: 1, url }]
+	});
+	const env = await cli('env', 'list', '--json');
+	expect(env.status, env.output).toBe(0);
+	expect(JSON.parse(env.stdout)).toEqual({
+		environment: 'preview',
+		variables: [{ name: 'API_URL', secret: false, value: 'https://api.example.com' }]
+	});
+});
+
+test('command errors are reported as fatal logs', async () => {
+	checkout = gitCheckout('feature');
+	fake.fail(/\/pages\/projects\/[^/]+\/deployments$/, 400, 'GET');
+	const result = await cli('status', '--retries', '0');
+	expect(result.status, result.output).toBe(1);
+	expect(result.output).toContain('failed with status 400');
+	expect(result.output).toContain('FATAL');
+	expect(result.output).not.toContain('at async');
+});
+
+test('gc destroys orphaned environments deployed by the tool only', async () => {
+	checkout = gitCheckout('master');
+	const id = fake.addPagesDeployment(PROJECT, 'removed', 'c'.repeat(40));
+	const url = `${fake.state.projects[PROJECT].deployments.find((x) => x.id == id)?.url}`;
+	fake.addGithubDeployment(REPOSITORY, 'removed', url);
+	fake.addGithubDeployment(REPOSITORY, 'merged', `https://abc123.${PROJECT}.pages.dev`);
+	fake.addGithubDeployment(REPOSITORY, 'github-pages', 'https://nephelaiio.github.io');
+	fake.addPagesDeployment(PROJECT, 'feature', 'd'.repeat(40));
+	const result = await cli('gc');
+	expect(result.status, result.output).toBe(0);
+	const branches = fake.state.projects[PROJECT].deployments.map(
+		(x) => x.deployment_trigger.metadata.branch
+	);
+	expect(branches).toEqual(['feature']);
+	const repository = fake.state.repositories[REPOSITORY];
+	expect(repository.environments).toEqual(['github-pages']);
+});
+
+test('invalid api settings are rejected', async () => {
+	checkout = gitCheckout('feature');
+	const retries = await cli('--retries', 'foo', 'status');
+	expect(retries.status, retries.output).toBe(1);
+	expect(retries.output).toContain('Expected a non-negative integer.');
+	const timeout = await cli('--timeout', '0', 'status');
+	expect(timeout.status, timeout.output).toBe(1);
+	expect(timeout.output).toContain('Expected a positive integer.');
+	expect(fake.state.requests).toEqual([]);
+});
+
+test('dry run plans changes without applying them', async () => {
+	checkout = gitCheckout('feature');
+	const id = fake.addPagesDeployment(PROJECT, 'feature', 'c'.repeat(40));
+	const url = `${fake.state.projects[PROJECT].deployments[0].url}`;
+	fake.addGithubDeployment(REPOSITORY, 'feature', url);
+	const result = await cli('--dry-run', 'clean');
+	expect(result.status, result.output).toBe(0);
+	expect(result.stdout).toContain(`DELETE  ${fake.cloudflareUrl}/accounts/`);
+	expect(result.stdout).toContain(`/deployments/${id}`);
+	expect(fake.state.requests.filter((x) => x.method != 'GET')).toEqual([]);
+	expect(fake.state.projects[PROJECT].deployments.map((x) => x.id)).toEqual([id]);
+	expect(fake.state.repositories[REPOSITORY].environments).toEqual(['feature']);
+});
+
+test('dry run plans deployments to projects that do not exist yet', async () => {
+	checkout = gitCheckout('feature');
+	const result = await cli('--dry-run', 'deploy', '--name', 'new-project', '--directory', 'build');
+	expect(result.status, result.output).toBe(0);
+	expect(result.stdout).toContain(`POST    ${fake.cloudflareUrl}/accounts/`);
+	expect(result.stdout).toContain('/pages/projects/new-project/deployments');
+	expect(fake.state.requests.filter((x) => x.method != 'GET')).toEqual([]);
+	expect(fake.state.projects['new-project']).toBeUndefined();
+});
+
+test('rollback promotes the requested production deployment', async () => {
+	checkout = gitCheckout('master');
+	const target = fake.addPagesDeployment(PROJECT, 'master', 'a'.repeat(40), new Date(0));
+	fake.addPagesDeployment(PROJECT, 'master', 'b'.repeat(40), new Date(1000));
+	fake.addPagesDeployment(PROJECT, 'master', 'c'.repeat(40));
+	const missing = await cli('rollback', '--to', 'f'.repeat(7));
+	expect(missing.status, missing.output).toBe(1);
+	expect(missing.output).toContain(`No successful production deployment matching 'fffffff'`);
+	const result = await cli('rollback', '--to', 'a'.repeat(7));
+	expect(result.status, result.output).toBe(0);
+	expect(fake.state.projects[PROJECT].rollbacks).toEqual([target]);
+	const repository = fake.state.repositories[REPOSITORY];
+	const [tracked] = repository.deployments.filter((x) => x.environment == 'master');
+	expect(repository.statuses[tracked.id][0]).toMatchObject({
+		state: 'success',
+		description: 'Rolled back to aaaaaaa'
+	});
+});
+
+test('rollback steps back from the live deployment', async () => {
+	checkout = gitCheckout('master');
+	const oldest = fake.addPagesDeployment(PROJECT, 'master', 'a'.repeat(40), new Date(0));
+	const previous = fake.addPagesDeployment(PROJECT, 'master', 'b'.repeat(40), new Date(1000));
+	fake.addPagesDeployment(PROJECT, 'master', 'c'.repeat(40));
+	const first = await cli('rollback');
+	expect(first.status, first.output).toBe(0);
+	const second = await cli('rollback');
+	expect(second.status, second.output).toBe(0);
+	expect(fake.state.projects[PROJECT].rollbacks).toEqual([previous, oldest]);
+	expect(fake.state.projects[PROJECT].canonical).toBe(oldest);
+	const last = await cli('rollback');
+	expect(last.status, last.output).toBe(1);
+	expect(last.output).toContain('No successful production deployment older than the current one');
+});
+
+test('deploy layers configuration by environment', async () => {
+	const config = [
+		'variables = ["SITE_NAME"]',
+		'compatibility_date = "2023-01-01"',
+		'',
+		'[environments.preview]',
+		'compatibility_date = "2023-06-01"',
+		'variables = ["API_URL"]',
+		'',
+		'[environments.feature]',
+		'compatibility_flags = ["nodejs_compat"]',
+		'secrets = ["API_KEY"]'
+	].join('\n');
+	checkout = gitCheckout('feature', { 'frontpage.toml': config });
+	const env = { SITE_NAME: 'frontpage', API_URL: 'https://api.example.com', API_KEY: 'hunter2' };
+	const result = await cliWith(env, 'deploy', '--directory', 'build', '--skip-checks');
+	expect(result.status, result.output).toBe(0);
+	expect(fake.state.projects[PROJECT].deployment_configs.preview).toEqual({
+		compatibility_date: '2023-06-01',
+		compatibility_flags: ['nodejs_compat'],
+		env_vars: {
+			SITE_NAME: { type: 'plain_text', value: 'frontpage' },
+			API_URL: { type: 'plain_text', value: 'https://api.example.com' },
+			API_KEY: { type: 'secret_text', value: 'hunter2' }
+		}
+	});
+	expect(fake.state.projects[PROJECT].deployment_configs.production.env_vars).toEqual({});
+});
+
+test('deploy upserts a preview comment on the pull request', async () => {
+	checkout = gitCheckout('feature');
+	fake.state.repositories[REPOSITORY].pulls = [
+		{ number: 7, state: 'open', head: { ref: 'feature' } }
+	];
+	const deploy = () => cli('deploy', '--directory', 'build', '--skip-checks', '--comment');
+	const created = await deploy();
+	expect(created.status, created.output).toBe(0);
+	const updated = await deploy();
+	expect(updated.status, updated.output).toBe(0);
+	const [first, second] = fake.state.projects[PROJECT].deployments;
+	const comments = fake.state.repositories[REPOSITORY].comments[7];
+	expect(comments).toHaveLength(1);
+	expect(comments[0].body).toContain(PREVIEW_MARKER);
+	expect(comments[0].body).toContain(second.url);
+	expect(comments[0].body).not.toContain(first.url);
+	const clean = await cli('clean', '--comment');
+	expect(clean.status, clean.output).toBe(0);
+	expect(fake.state.repositories[REPOSITORY].comments[7][0].body).toContain('was torn down');
+});
+
+test('clean applies the retention policy to production', async () => {
+	checkout = gitCheckout('master');
+	const ids = [0, 1, 2, 3, 4].map((x) =>
+		fake.addPagesDeployment(PROJECT, 'master', `${x}`.repeat(40), new Date(x * 1000))
+	);
+	const [aliased] = fake.state.projects[PROJECT].deployments;
+	aliased.aliases = [`https://release.${PROJECT}.pages.dev`];
+	const result = await cli('clean', '--max-deployments', '2', '--keep-aliased');
+	expect(result.status, result.output).toBe(0);
+	expect(result.output).toContain('no retention rule matched');
+	const kept = fake.state.projects[PROJECT].deployments.map((x) => x.id);
+	expect(kept).toEqual([ids[0], ids[3], ids[4]]);
+});
+
+test('json logs redact secret values', async () => {
+	checkout = gitCheckout('feature');
+	const env = { API_KEY: 'hunter2-secret' };
+	const args = ['--verbose', '--log-format', 'json', 'deploy', '--directory', 'build'];
+	const result = await cliWith(env, ...args, '--secret', 'API_KEY', '--skip-checks');
+	expect(result.status, result.output).toBe(0);
+	expect(result.output).not.toContain('hunter2-secret');
+	const lines = result.output.split('\n').filter((x) => x.trim() != '');
+	expect(lines.length).toBeGreaterThan(0);
+	const logs = lines.map((x) => JSON.parse(x));
+	expect(logs.some((x) => x._meta?.logLevelName == 'DEBUG')).toBe(true);
+	expect(fake.state.projects[PROJECT].deployment_configs.preview.env_vars).toEqual({
+		API_KEY: { type: 'secret_text', value: 'hunter2-secret' }
+	});
+});
+
+test('deploy fails previews whose smoke checks do not match', async () => {
+	const config = ['[[checks]]', 'path = "/"', 'contains = ["Welcome"]'].join('\n');
+	checkout = gitCheckout('feature', { 'frontpage.toml': config });
+	const result = await cli('deploy', '--directory', 'build', '--verify-timeout', '1');
+	expect(result.status, result.output).toBe(1);
+	expect(result.output).toContain('Deployment checks failed');
+	expect(fake.state.projects[PROJECT].rollbacks).toEqual([]);
+	const repository = fake.state.repositories[REPOSITORY];
+	const [tracked] = repository.deployments.filter((x) => x.environment == 'feature');
+	expect(repository.statuses[tracked.id][0]).toMatchObject({
+		state: 'failure',
+		description: '1 deployment checks failed'
+	});
+});
+
+test('deploy reports failed checks when there is nothing to roll back to', async () => {
+	checkout = gitCheckout('master');
+	fake.state.site.status = 500;
+	const result = await cli('deploy', '--directory', 'build', '--verify-timeout', '1');
+	expect(result.status, result.output).toBe(1);
+	expect(result.output).toContain(`Unable to roll back project '${PROJECT}'`);
+	expect(result.output).toMatch(/FATAL.*Deployment checks failed/);
+	expect(fake.state.projects[PROJECT].rollbacks).toEqual([]);
+});
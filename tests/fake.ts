@@ -0,0 +1,718 @@
+import { createServer } from 'http';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+
+type FakeRequest = {
+	method: string;
+	path: string;
+	body: unknown;
+};
+
+type FakeFailure = {
+	method?: string;
+	path: string | RegExp;
+	status: number;
+	times: number;
+};
+
+type FakeGithubDeployment = {
+	id: number;
+	ref: string;
+	sha: string;
+	environment: string;
+	created_at: string;
+	updated_at: string;
+};
+
+type FakeGithubStatus = {
+	id: number;
+	state: string;
+	environment_url: string | null;
+	description: string | null;
+	created_at: string;
+};
+
+type FakeGithubComment = {
+	id: number;
+	body: string;
+	html_url: string;
+};
+
+type FakeGithubRepository = {
+	branches: string[];
+	pulls: { number: number; state: string; head: { ref: string } }[];
+	environments: string[];
+	deployments: FakeGithubDeployment[];
+	statuses: Record<number, FakeGithubStatus[]>;
+	comments: Record<number, FakeGithubComment[]>;
+};
+
+type FakeEnvVar = { type?: string; value?: string | null };
+
+type FakePagesConfig = {
+	compatibility_date?: string | null;
+	compatibility_flags?: string[] | null;
+	env_vars: Record<string, FakeEnvVar>;
+};
+
+type FakePagesDeployment = {
+	id: string;
+	url: string;
+	environment: string;
+	created_on: string;
+	aliases: string[];
+	latest_stage: { name: string; status: string };
+	deployment_trigger: {
+		type: string;
+		metadata: { branch: string; commit_hash: string | null; commit_message: string | null };
+	};
+};
+
+type FakePagesProject = {
+	production_branch: string;
+	deployment_configs: { production: FakePagesConfig; preview: FakePagesConfig };
+	deployments: FakePagesDeployment[];
+	manifests: Record<string, Record<string, string>>;
+	rollbacks: string[];
+	canonical: string | null;
+};
+
+type FakeFixtures = {
+	routes?: Record<string, unknown>;
+	repositories?: Record<string, Partial<FakeGithubRepository>>;
+	projects?: Record<string, Partial<Pick<FakePagesProject, 'production_branch'>>>;
+};
+
+type FakeState = {
+	routes: Record<string, unknown>;
+	repositories: Record<string, FakeGithubRepository>;
+	projects: Record<string, FakePagesProject>;
+	assets: Set<string>;
+	site: { status: number; body: string };
+	requests: FakeRequest[];
+	failures: FakeFailure[];
+};
+
+type FakeServer = {
+	url: string;
+	githubUrl: string;
+	cloudflareUrl: string;
+	state: FakeState;
+	fail(path: string | RegExp, status: number, method?: string, times?: number): void;
+	addPagesDeployment(
+		project: string,
+		branch: string,
+		commit?: string | null,
+		created?: Date,
+		manifest?: Record<string, string>,
+		message?: string | null
+	): string;
+	addGithubDeployment(repository: string, environment: string, url: string, sha?: string): number;
+	close(): Promise<void>;
+};
+
+type Handler = (match: string[], body: unknown, request: IncomingMessage) => Promise<Reply> | Reply;
+
+type Reply = { status: number; body?: unknown };
+
+const GITHUB_PREFIX = '/github';
+const CLOUDFLARE_PREFIX = '/cloudflare';
+const SITE_BODY = '<!doctype html><html><body><h1>frontpage</h1></body></html>';
+
+const notFound: Reply = { status: 404, body: { message: 'Not Found' } };
+
+const pagesConfig = (): FakePagesConfig => ({ env_vars: {} });
+
+const cloudflareResult = (result: unknown, status = 200): Reply => ({
+	status,
+	body: { success: true, errors: [], messages: [], result }
+});
+
+const cloudflareError = (status: number, message: string): Reply => ({
+	status,
+	body: { success: false, errors: [{ code: status, message }], messages: [], result: null }
+});
+
+async function readBody(request: IncomingMessage): Promise<unknown> {
+	const chunks: Buffer[] = [];
+	for await (const chunk of request) {
+		chunks.push(chunk as Buffer);
+	}
+	const data = Buffer.concat(chunks);
+	const contentType = request.headers['content-type'] || '';
+	if (data.length == 0) {
+		return null;
+	} else if (contentType.startsWith('multipart/form-data')) {
+		const form = await new Response(data, { headers: { 'content-type': contentType } }).formData();
+		return Object.fromEntries(
+			[...form.entries()].map(([key, value]) => [key, typeof value == 'string' ? value : key])
+		);
+	}
+	return JSON.parse(data.toString());
+}
+
+function createFakeServer(port = 0, fixtures: FakeFixtures = {}): Promise<FakeServer> {
+	const state: FakeState = {
+		routes: { ...fixtures.routes },
+		repositories: Object.fromEntries(
+			Object.entries(fixtures.repositories || {}).map(([name, repository]) => [
+				name,
+				{
+					branches: [],
+					pulls: [],
+					environments: [],
+					deployments: [],
+					statuses: {},
+					comments: {},
+					...repository
+				}
+			])
+		),
+		projects: Object.fromEntries(
+			Object.entries(fixtures.projects || {}).map(([name, project]) => [
+				name,
+				{
+					production_branch: 'master',
+					deployment_configs: { production: pagesConfig(), preview: pagesConfig() },
+					...project,
+					deployments: [],
+					manifests: {},
+					rollbacks: [],
+					canonical: null
+				}
+			])
+		),
+		assets: new Set(),
+		site: { status: 200, body: SITE_BODY },
+		requests: [],
+		failures: []
+	};
+	let baseUrl = '';
+	let sequence = 1000;
+	const now = () => new Date().toISOString();
+
+	const repository = (owner: string, name: string) => state.repositories[`${owner}/${name}`];
+	const project = (name: string) => state.projects[name];
+
+	const addGithubDeployment = (
+		name: string,
+		environment: string,
+		url: string,
+		sha = 'a'.repeat(40)
+	) => {
+		const repo = state.repositories[name];
+		const id = sequence++;
+		repo.deployments.push({
+			id,
+			ref: environment,
+			sha,
+			environment,
+			created_at: now(),
+			updated_at: now()
+		});
+		repo.statuses[id] = [
+			{
+				id: sequence++,
+				state: 'success',
+				environment_url: url,
+				description: null,
+				created_at: now()
+			}
+		];
+		if (!repo.environments.includes(environment)) repo.environments.push(environment);
+		return id;
+	};
+
+	const addPagesDeployment = (
+		name: string,
+		branch: string,
+		commit: string | null = null,
+		created: Date = new Date(),
+		manifest: Record<string, string> = {},
+		message: string | null = null
+	) => {
+		const pages = project(name);
+		const id = randomUUID();
+		const isProduction = branch == pages.production_branch;
+		pages.deployments.push({
+			id,
+			url: `${baseUrl}/?deployment=${id}`,
+			environment: isProduction ? 'production' : 'preview',
+			created_on: created.toISOString(),
+			aliases: [],
+			latest_stage: { name: 'deploy', status: 'success' },
+			deployment_trigger: {
+				type: 'ad_hoc',
+				metadata: { branch, commit_hash: commit, commit_message: message }
+			}
+		});
+		pages.manifests[id] = manifest;
+		// the newest production deployment goes live, fixtures may add older ones afterwards
+		const live = pages.deployments.find((x) => x.id == pages.canonical);
+		if (isProduction && (!live || live.created_on <= created.toISOString())) {
+			pages.canonical = id;
+		}
+		return id;
+	};
+
+	const projectRecord = (name: string) => {
+		const { production_branch, deployment_configs, deployments, canonical } = state.projects[name];
+		return {
+			id: `project-${name}`,
+			name,
+			subdomain: `${name}.pages.dev`,
+			production_branch,
+			deployment_configs,
+			canonical_deployment: deployments.find((x) => x.id == canonical) || null
+		};
+	};
+
+	const github: [string, RegExp, Handler][] = [
+		[
+			'GET',
+			/^\/repos\/([^/]+)\/([^/]+)$/,
+			([owner, name]) => {
+				if (!repository(owner, name)) return notFound;
+				return {
+					status: 200,
+					body: {
+						id: 1,
+						name,
+						full_name: `${owner}/${name}`,
+						html_url: `https://github.com/${owner}/${name}`,
+						description: null,
+						language: null,
+						stargazers_count: 0,
+						topics: [],
+						pushed_at: now(),
+						default_branch: 'master',
+						fork: false,
+						archived: false
+					}
+				};
+			}
+		],
+		[
+			'GET',
+			/^\/search\/issues$/,
+			(_, __, request) => {
+				// open counts come from the issues route fixture of the searched repository
+				const query = `${new URL(`${request.url}`, baseUrl).searchParams.get('q')}`;
+				const [, name] = query.match(/repo:(\S+)/) || [];
+				const isPull = query.includes('is:pr');
+				const issues = (state.routes[`/repos/${name}/issues`] || []) as { pull_request?: object }[];
+				const count = issues.filter((x) => (x.pull_request != null) == isPull).length;
+				return { status: 200, body: { total_count: count, incomplete_results: false, items: [] } };
+			}
+		],
+		[
+			'GET',
+			/^\/repos\/([^/]+)\/([^/]+)\/branches$/,
+			([owner, name]) => {
+				const repo = repository(owner, name);
+				return repo ? { status: 200, body: repo.branches.map((x) => ({ name: x })) } : notFound;
+			}
+		],
+		[
+			'GET',
+			/^\/repos\/([^/]+)\/([^/]+)\/branches\/(.+)$/,
+			([owner, name, branch]) => {
+				const repo = repository(owner, name);
+				return repo?.branches.includes(branch) ? { status: 200, body: { name: branch } } : notFound;
+			}
+		],
+		[
+			'GET',
+			/^\/repos\/([^/]+)\/([^/]+)\/pulls$/,
+			([owner, name]) => {
+				const repo = repository(owner, name);
+				const pulls = (repo?.pulls || []).map((x) => ({
+					...x,
+					html_url: `https://github.com/${owner}/${name}/pull/${x.number}`
+				}));
+				return repo ? { status: 200, body: pulls.filter((x) => x.state == 'open') } : notFound;
+			}
+		],
+		[
+			'GET',
+			/^\/repos\/([^/]+)\/([^/]+)\/issues\/(\d+)\/comments$/,
+			([owner, name, issue]) => {
+				const repo = repository(owner, name);
+				return repo ? { status: 200, body: repo.comments[Number(issue)] || [] } : notFound;
+			}
+		],
+		[
+			'POST',
+			/^\/repos\/([^/]+)\/([^/]+)\/issues\/(\d+)\/comments$/,
+			([owner, name, issue], body) => {
+				const repo = repository(owner, name);
+				if (!repo) return notFound;
+				const id = sequence++;
+				const comment = {
+					id,
+					body: (body as { body: string }).body,
+					html_url: `https://github.com/${owner}/${name}/pull/${issue}#issuecomment-${id}`
+				};
+				repo.comments[Number(issue)] = [...(repo.comments[Number(issue)] || []), comment];
+				return { status: 201, body: comment };
+			}
+		],
+		[
+			'PATCH',
+			/^\/repos\/([^/]+)\/([^/]+)\/issues\/comments\/(\d+)$/,
+			([owner, name, id], body) => {
+				const comment = Object.values(repository(owner, name)?.comments || {})
+					.flat()
+					.find((x) => x.id == Number(id));
+				if (!comment) return notFound;
+				comment.body = (body as { body: string }).body;
+				return { status: 200, body: comment };
+			}
+		],
+		[
+			'GET',
+			/^\/repos\/([^/]+)\/([^/]+)\/environments$/,
+			([owner, name]) => {
+				const repo = repository(owner, name);
+				if (!repo) return notFound;
+				const environments = repo.environments.map((x, i) => ({
+					id: i + 1,
+					name: x,
+					created_at: now(),
+					updated_at: now()
+				}));
+				return { status: 200, body: { total_count: environments.length, environments } };
+			}
+		],
+		[
+			'PUT',
+			/^\/repos\/([^/]+)\/([^/]+)\/environments\/(.+)$/,
+			([owner, name, environment]) => {
+				const repo = repository(owner, name);
+				if (!repo) return notFound;
+				if (!repo.environments.includes(environment)) repo.environments.push(environment);
+				return { status: 200, body: { id: sequence++, name: environment } };
+			}
+		],
+		[
+			'DELETE',
+			/^\/repos\/([^/]+)\/([^/]+)\/environments\/(.+)$/,
+			([owner, name, environment]) => {
+				const repo = repository(owner, name);
+				if (!repo?.environments.includes(environment)) return notFound;
+				repo.environments = repo.environments.filter((x) => x != environment);
+				return { status: 204 };
+			}
+		],
+		[
+			'GET',
+			/^\/repos\/([^/]+)\/([^/]+)\/deployments$/,
+			([owner, name], _, request) => {
+				const repo = repository(owner, name);
+				if (!repo) return notFound;
+				const query = new URL(`${request.url}`, baseUrl).searchParams;
+				const environment = query.get('environment');
+				const deployments = repo.deployments.filter(
+					(x) => environment == null || x.environment == environment
+				);
+				return { status: 200, body: deployments };
+			}
+		],
+		[
+			'POST',
+			/^\/repos\/([^/]+)\/([^/]+)\/deployments$/,
+			([owner, name], body) => {
+				const repo = repository(owner, name);
+				if (!repo) return notFound;
+				const { ref, environment } = body as { ref: string; environment: string };
+				const id = sequence++;
+				const deployment = {
+					id,
+					ref,
+					sha: 'a'.repeat(40),
+					environment,
+					created_at: now(),
+					updated_at: now()
+				};
+				repo.deployments.push(deployment);
+				repo.statuses[id] = [];
+				return { status: 201, body: deployment };
+			}
+		],
+		[
+			'DELETE',
+			/^\/repos\/([^/]+)\/([^/]+)\/deployments\/(\d+)$/,
+			([owner, name, id]) => {
+				const repo = repository(owner, name);
+				const deployment = repo?.deployments.find((x) => x.id == Number(id));
+				if (!repo || !deployment) return notFound;
+				if (repo.statuses[deployment.id][0]?.state != 'inactive') {
+					return { status: 422, body: { message: 'We cannot delete an active deployment' } };
+				}
+				repo.deployments = repo.deployments.filter((x) => x != deployment);
+				return { status: 204 };
+			}
+		],
+		[
+			'GET',
+			/^\/repos\/([^/]+)\/([^/]+)\/deployments\/(\d+)\/statuses$/,
+			([owner, name, id]) => {
+				const statuses = repository(owner, name)?.statuses[Number(id)];
+				return statuses ? { status: 200, body: statuses } : notFound;
+			}
+		],
+		[
+			'POST',
+			/^\/repos\/([^/]+)\/([^/]+)\/deployments\/(\d+)\/statuses$/,
+			([owner, name, id], body) => {
+				const repo = repository(owner, name);
+				const deployment = repo?.deployments.find((x) => x.id == Number(id));
+				if (!repo || !deployment) return notFound;
+				const { state, environment_url, description } = body as Record<string, string>;
+				const status = {
+					id: sequence++,
+					state,
+					environment_url: environment_url || null,
+					description: description || null,
+					created_at: now()
+				};
+				repo.statuses[deployment.id].unshift(status);
+				deployment.updated_at = status.created_at;
+				return { status: 201, body: status };
+			}
+		]
+	];
+
+	const cloudflare: [string, RegExp, Handler][] = [
+		[
+			'GET',
+			/^\/accounts\/[^/]+\/pages\/projects$/,
+			() => {
+				const projects = Object.keys(state.projects).map((name) => projectRecord(name));
+				return cloudflareResult(projects);
+			}
+		],
+		[
+			'POST',
+			/^\/accounts\/[^/]+\/pages\/projects$/,
+			(_, body) => {
+				const { name, production_branch } = body as { name: string; production_branch: string };
+				if (project(name)) return cloudflareError(409, 'A project with this name already exists');
+				state.projects[name] = {
+					production_branch,
+					deployment_configs: { production: pagesConfig(), preview: pagesConfig() },
+					deployments: [],
+					manifests: {},
+					rollbacks: [],
+					canonical: null
+				};
+				return cloudflareResult(projectRecord(name));
+			}
+		],
+		[
+			'GET',
+			/^\/accounts\/[^/]+\/pages\/projects\/([^/]+)$/,
+			([name]) =>
+				project(name)
+					? cloudflareResult(projectRecord(name))
+					: cloudflareError(404, 'Project not found')
+		],
+		[
+			'PATCH',
+			/^\/accounts\/[^/]+\/pages\/projects\/([^/]+)$/,
+			([name], body) => {
+				const pages = project(name);
+				if (!pages) return cloudflareError(404, 'Project not found');
+				const configs = (body as { deployment_configs?: Record<string, Partial<FakePagesConfig>> })
+					.deployment_configs;
+				for (const section of ['production', 'preview'] as const) {
+					const { env_vars, ...settings } = configs?.[section] || {};
+					const config = pages.deployment_configs[section];
+					Object.assign(config, settings);
+					for (const [key, value] of Object.entries(env_vars || {})) {
+						if (value == null) {
+							delete config.env_vars[key];
+						} else {
+							config.env_vars[key] = value;
+						}
+					}
+				}
+				return cloudflareResult(projectRecord(name));
+			}
+		],
+		[
+			'GET',
+			/^\/accounts\/[^/]+\/pages\/projects\/([^/]+)\/upload-token$/,
+			([name]) =>
+				project(name)
+					? cloudflareResult({ jwt: `upload-token-${name}` })
+					: cloudflareError(404, 'Project not found')
+		],
+		[
+			'POST',
+			/^\/pages\/assets\/check-missing$/,
+			(_, body) => {
+				const { hashes } = body as { hashes: string[] };
+				return cloudflareResult(hashes.filter((x) => !state.assets.has(x)));
+			}
+		],
+		[
+			'POST',
+			/^\/pages\/assets\/upload$/,
+			(_, body) => {
+				const assets = body as { key: string }[];
+				assets.forEach((x) => state.assets.add(x.key));
+				return cloudflareResult({ successful_key_count: assets.length, unsuccessful_keys: [] });
+			}
+		],
+		['POST', /^\/pages\/assets\/upsert-hashes$/, () => cloudflareResult(null)],
+		[
+			'GET',
+			/^\/accounts\/[^/]+\/pages\/projects\/([^/]+)\/deployments$/,
+			([name], _, request) => {
+				const pages = project(name);
+				if (!pages) return cloudflareError(404, 'Project not found');
+				const page = Number(new URL(`${request.url}`, baseUrl).searchParams.get('page') || 1);
+				const deployments = page == 1 ? [...pages.deployments].reverse() : [];
+				return {
+					status: 200,
+					body: {
+						success: true,
+						errors: [],
+						messages: [],
+						result: deployments,
+						// total_pages is optional, leaving it out exercises the page count fallback
+						result_info: {
+							page,
+							per_page: 25,
+							count: deployments.length,
+							total_count: pages.deployments.length
+						}
+					}
+				};
+			}
+		],
+		[
+			'POST',
+			/^\/accounts\/[^/]+\/pages\/projects\/([^/]+)\/deployments$/,
+			([name], body) => {
+				const pages = project(name);
+				if (!pages) return cloudflareError(404, 'Project not found');
+				const form = body as Record<string, string>;
+				const manifest = JSON.parse(form.manifest || '{}');
+				const missing = Object.values(manifest).filter((x) => !state.assets.has(`${x}`));
+				if (missing.length > 0) {
+					return cloudflareError(400, `Missing ${missing.length} assets`);
+				}
+				const id = addPagesDeployment(
+					name,
+					form.branch,
+					form.commit_hash || null,
+					new Date(),
+					manifest,
+					form.commit_message || null
+				);
+				return cloudflareResult(pages.deployments.find((x) => x.id == id));
+			}
+		],
+		[
+			'DELETE',
+			/^\/accounts\/[^/]+\/pages\/projects\/([^/]+)\/deployments\/([^/]+)$/,
+			([name, id]) => {
+				const pages = project(name);
+				if (!pages?.deployments.some((x) => x.id == id)) {
+					return cloudflareError(404, 'Deployment not found');
+				}
+				pages.deployments = pages.deployments.filter((x) => x.id != id);
+				return cloudflareResult(null);
+			}
+		],
+		[
+			'POST',
+			/^\/accounts\/[^/]+\/pages\/projects\/([^/]+)\/deployments\/([^/]+)\/rollback$/,
+			([name, id]) => {
+				const pages = project(name);
+				const deployment = pages?.deployments.find((x) => x.id == id);
+				if (!pages || !deployment) return cloudflareError(404, 'Deployment not found');
+				pages.rollbacks.push(id);
+				pages.canonical = id;
+				return cloudflareResult(deployment);
+			}
+		]
+	];
+
+	async function route(request: IncomingMessage): Promise<Reply> {
+		const method = `${request.method}`;
+		const { pathname } = new URL(`${request.url}`, baseUrl);
+		const body = await readBody(request);
+		state.requests.push({ method, path: pathname, body });
+		const failure = state.failures.find(
+			(x) =>
+				x.times > 0 &&
+				(x.method == null || x.method == method) &&
+				(typeof x.path == 'string' ? pathname.endsWith(x.path) : x.path.test(pathname))
+		);
+		if (failure) {
+			failure.times--;
+			return { status: failure.status, body: { message: 'Injected failure' } };
+		}
+		const [prefix, handlers] = pathname.startsWith(`${GITHUB_PREFIX}/`)
+			? [GITHUB_PREFIX, github]
+			: pathname.startsWith(`${CLOUDFLARE_PREFIX}/`)
+			? [CLOUDFLARE_PREFIX, cloudflare]
+			: [null, []];
+		if (prefix == null) {
+			return { status: state.site.status, body: state.site.body };
+		}
+		const path = pathname.slice(prefix.length);
+		if (method == 'GET' && prefix == GITHUB_PREFIX && path in state.routes) {
+			return { status: 200, body: state.routes[path] };
+		}
+		for (const [handlerMethod, pattern, handler] of handlers) {
+			const match = path.match(pattern);
+			if (handlerMethod == method && match) {
+				return handler(match.slice(1).map(decodeURIComponent), body, request);
+			}
+		}
+		return prefix == CLOUDFLARE_PREFIX ? cloudflareError(404, 'Not Found') : notFound;
+	}
+
+	function respond(response: ServerResponse, reply: Reply) {
+		if (typeof reply.body == 'string') {
+			response.writeHead(reply.status, { 'Content-Type': 'text/html' });
+			response.end(reply.body);
+		} else {
+			response.writeHead(reply.status, { 'Content-Type': 'application/json' });
+			response.end(reply.body === undefined ? undefined : JSON.stringify(reply.body));
+		}
+	}
+
+	const server = createServer((request, response) => {
+		route(request)
+			.then((reply) => respond(response, reply))
+			.catch((error) => respond(response, { status: 500, body: { message: `${error}` } }));
+	});
+
+	return new Promise((resolve) => {
+		server.listen(port, () => {
+			const address = server.address();
+			const listening = typeof address == 'object' && address ? address.port : port;
+			baseUrl = `http://localhost:${listening}`;
+			resolve({
+				url: baseUrl,
+				githubUrl: `${baseUrl}${GITHUB_PREFIX}`,
+				cloudflareUrl: `${baseUrl}${CLOUDFLARE_PREFIX}`,
+				state,
+				fail: (path, status, method, times = 1) => {
+					state.failures.push({ path, status, method, times });
+				},
+				addPagesDeployment,
+				addGithubDeployment,
+				close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+			});
+		});
+	});
+}
+
+export type { FakeServer, FakeState, FakeFixtures, FakeRequest };
+export { createFakeServer };
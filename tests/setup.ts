@@ -0,0 +1,30 @@
+import { readFileSync } from 'fs';
+import { createFakeServer } from './fake.ts';
+
+const GITHUB_STUB_PORT = 4180;
+const GITHUB_STUB_URL = `http://localhost:${GITHUB_STUB_PORT}/github`;
+const GITHUB_WEBHOOK_SECRET = 'frontpage-webhook-secret';
+
+const fixture = (path: string) =>
+	JSON.parse(readFileSync(new URL(`./fixtures/${path}`, import.meta.url)).toString());
+
+const repos: { name: string }[] = fixture('repos.json');
+
+const routes: Record<string, unknown> = {
+	...Object.fromEntries(repos.map((x) => [`/repos/nephelaiio/${x.name}`, x])),
+	'/users/nephelaiio/repos': fixture('repos.json'),
+	'/repos/nephelaiio/ansible-role-k8s/readme': fixture('ansible-role-k8s/readme.json'),
+	'/repos/nephelaiio/ansible-role-k8s/releases/latest': fixture('ansible-role-k8s/release.json'),
+	'/repos/nephelaiio/ansible-role-k8s/languages': fixture('ansible-role-k8s/languages.json'),
+	'/repos/nephelaiio/ansible-role-k8s/commits': fixture('ansible-role-k8s/commits.json'),
+	'/repos/nephelaiio/ansible-role-k8s/actions/runs': fixture('ansible-role-k8s/runs.json'),
+	'/repos/nephelaiio/ansible-role-k8s/issues': fixture('ansible-role-k8s/issues.json')
+};
+
+async function globalSetup() {
+	const fake = await createFakeServer(GITHUB_STUB_PORT, { routes });
+	return fake.close;
+}
+
+export { GITHUB_STUB_PORT, GITHUB_STUB_URL, GITHUB_WEBHOOK_SECRET };
+export default globalSetup;
@@ -1,6 +1,200 @@
+import { createHmac, randomUUID } from 'crypto';
 import { expect, test } from '@playwright/test';
+import type { APIRequestContext } from '@playwright/test';
+import { githubAPI } from '../src/lib/api.ts';
+import { memoryStore } from '../src/lib/cache.ts';
+import { listRepoStatuses } from '../src/lib/github.ts';
+import { createFakeServer } from './fake.ts';
+import { GITHUB_WEBHOOK_SECRET } from './setup.ts';
 
-test('index page has expected h1', async ({ page }) => {
+const webhook = (request: APIRequestContext, event: string, payload: object, secret?: string) => {
+	const body = JSON.stringify(payload);
+	const digest = createHmac('sha256', secret || GITHUB_WEBHOOK_SECRET)
+		.update(body)
+		.digest('hex');
+	return request.post('/api/webhook', {
+		data: body,
+		headers: {
+			'Content-Type': 'application/json',
+			'X-GitHub-Event': event,
+			'X-GitHub-Delivery': randomUUID(),
+			'X-Hub-Signature-256': `sha256=${digest}`
+		}
+	});
+};
+
+const repository = {
+	name: 'ansible-role-k8s',
+	full_name: 'nephelaiio/ansible-role-k8s',
+	owner: { login: 'nephelaiio' }
+};
+
+test('index page has owner heading', async ({ page }) => {
+	await page.goto('/');
+	await expect(page.getByRole('heading', { level: 1, name: 'nephelaiio' })).toBeVisible();
+});
+
+test('index page lists repositories as cards', async ({ page }) => {
+	await page.goto('/');
+	const card = page.getByRole('listitem').filter({
+		has: page.getByRole('heading', { name: 'ansible-role-k8s' })
+	});
+	await expect(card).toBeVisible();
+	await expect(card.getByText('Ansible role for kubernetes deployment')).toBeVisible();
+	await expect(card.getByText('Jinja')).toBeVisible();
+	await expect(card.locator('.stars')).toHaveText('12');
+	await expect(card.getByText('kubernetes', { exact: true })).toBeVisible();
+	await expect(card.locator('time')).toHaveAttribute('datetime', '2023-03-28T14:02:11Z');
+});
+
+test('index page hides forks and archived repositories', async ({ page }) => {
+	await page.goto('/');
+	await expect(page.getByRole('heading', { name: 'sveltekit-frontpage' })).toBeVisible();
+	await expect(page.getByRole('heading', { name: 'forked-collection' })).toHaveCount(0);
+	await expect(page.getByRole('heading', { name: 'archived-role' })).toHaveCount(0);
+});
+
+test('repository page renders sanitized readme', async ({ page }) => {
+	await page.goto('/ansible-role-k8s');
+	await expect(page.getByRole('heading', { level: 1, name: 'ansible-role-k8s' })).toBeVisible();
+	const readme = page.locator('.readme');
+	await expect(readme.getByRole('heading', { name: 'nephelaiio.k8s' })).toBeVisible();
+	await expect(readme.getByRole('link', { name: 'molecule scenarios' })).toHaveAttribute(
+		'href',
+		'https://github.com/nephelaiio/ansible-role-k8s/blob/master/molecule/default'
+	);
+	await expect(readme.getByRole('img', { name: 'build status' })).toHaveAttribute(
+		'src',
+		'https://github.com/nephelaiio/ansible-role-k8s/raw/master/docs/badge.svg'
+	);
+	await expect(readme.locator('script')).toHaveCount(0);
+});
+
+test('repository page shows release, languages and commits', async ({ page }) => {
+	await page.goto('/ansible-role-k8s');
+	await expect(page.locator('.release').getByRole('link', { name: 'v1.4.0' })).toBeVisible();
+	await expect(page.locator('.languages').getByText('Jinja 75.0%')).toBeVisible();
+	await expect(page.locator('.languages').getByText('Python 25.0%')).toBeVisible();
+	const commits = page.locator('.commits li');
+	await expect(commits).toHaveCount(2);
+	await expect(commits.first()).toContainText('Bump ingress chart version');
+	await expect(commits.first()).not.toContainText('ingress-nginx');
+});
+
+test('repository page returns not found for unknown repositories', async ({ page }) => {
+	const response = await page.goto('/missing-repository');
+	expect(response?.status()).toBe(404);
+});
+
+test('index page links repositories to their pages', async ({ page }) => {
+	await page.goto('/');
+	await page.getByRole('link', { name: 'ansible-role-k8s' }).click();
+	await expect(page).toHaveURL('/ansible-role-k8s');
+});
+
+test('index page groups repositories into curated sections', async ({ page }) => {
 	await page.goto('/');
-	await expect(page.getByRole('heading', { name: 'Hello World' })).toBeVisible();
+	const ansible = page.locator('section').filter({
+		has: page.getByRole('heading', { level: 2, name: 'Ansible roles' })
+	});
+	await expect(ansible.getByRole('heading', { name: 'ansible-role-k8s' })).toBeVisible();
+	const web = page.locator('section').filter({
+		has: page.getByRole('heading', { level: 2, name: 'Web' })
+	});
+	await expect(web.getByRole('heading', { name: 'sveltekit-frontpage' })).toBeVisible();
+	await expect(page.getByRole('heading', { name: 'Terraform modules' })).toHaveCount(0);
+});
+
+test('index page hides curated repositories', async ({ page }) => {
+	await page.goto('/');
+	await expect(page.getByRole('heading', { name: 'legacy-role' })).toHaveCount(0);
+	const response = await page.goto('/legacy-role');
+	expect(response?.status()).toBe(404);
+});
+
+test('index page shows build status, release and open counts', async ({ page }) => {
+	await page.goto('/');
+	const card = page.getByRole('listitem').filter({
+		has: page.getByRole('heading', { name: 'ansible-role-k8s' })
+	});
+	await expect(card.locator('.build')).toHaveText('success');
+	await expect(card.locator('.build')).toHaveAttribute(
+		'href',
+		'https://github.com/nephelaiio/ansible-role-k8s/actions/runs/4556012345'
+	);
+	await expect(card.locator('.release')).toHaveText('v1.4.0');
+	await expect(card.locator('.issues')).toHaveText('2');
+	await expect(card.locator('.pulls')).toHaveText('1');
+});
+
+test('repository status is exposed as json', async ({ request }) => {
+	const response = await request.get('/api/repos.json');
+	expect(response.ok()).toBeTruthy();
+	const { owner, repos } = await response.json();
+	expect(owner).toBe('nephelaiio');
+	const repo = repos.find((x: { name: string }) => x.name == 'ansible-role-k8s');
+	expect(repo).toMatchObject({ release: 'v1.4.0', issues: 2, pulls: 1 });
+	expect(repo.build.state).toBe('success');
+	const frontpage = repos.find((x: { name: string }) => x.name == 'sveltekit-frontpage');
+	expect(frontpage).toMatchObject({ build: null, release: null, issues: 0, pulls: 0 });
+});
+
+test('missing github resources are cached', async () => {
+	const fake = await createFakeServer(0);
+	const cache = { store: memoryStore(), maxAge: 300, staleWhileRevalidate: 3600 };
+	const path = 'repos/nephelaiio/norelease/releases/latest';
+	const release = () => githubAPI('', path, 'GET', null, { url: fake.githubUrl, cache });
+	try {
+		expect(await release()).toBeNull();
+		expect(await release()).toBeNull();
+		const requests = fake.state.requests.filter((x) => x.path.endsWith('/releases/latest'));
+		expect(requests).toHaveLength(1);
+	} finally {
+		await fake.close();
+	}
+});
+
+test('repository counts are unknown when github search fails', async () => {
+	const fake = await createFakeServer(0);
+	fake.fail('/search/issues', 422, 'GET', 2);
+	const repo = {
+		name: 'norelease',
+		url: 'https://github.com/nephelaiio/norelease',
+		description: null,
+		language: null,
+		stars: 0,
+		topics: [],
+		pushedAt: null,
+		branch: 'master'
+	};
+	try {
+		const [status] = await listRepoStatuses('', 'nephelaiio', [repo], { url: fake.githubUrl });
+		expect(status).toMatchObject({ issues: null, pulls: null });
+	} finally {
+		await fake.close();
+	}
+});
+
+test('webhook rejects invalid signatures', async ({ request }) => {
+	const response = await webhook(request, 'ping', { zen: 'Keep it simple' }, 'wrong-secret');
+	expect(response.status()).toBe(401);
+});
+
+test('webhook rejects replayed payloads', async ({ request }) => {
+	const payload = { zen: 'Avoid administrative distraction', hook_id: Date.now() };
+	expect((await webhook(request, 'ping', payload)).status()).toBe(200);
+	expect((await webhook(request, 'ping', payload)).status()).toBe(409);
+});
+
+test('webhook invalidates cached repository data on push', async ({ request }) => {
+	await request.get('/');
+	const response = await webhook(request, 'push', { ref: `refs/heads/${Date.now()}`, repository });
+	expect(response.status()).toBe(200);
+	const { invalidated } = await response.json();
+	expect(invalidated).toBeGreaterThan(0);
+});
+
+test('webhook accepts and ignores unsupported events', async ({ request }) => {
+	const response = await webhook(request, 'star', { action: 'created', repository });
+	expect(response.status()).toBe(202);
 });